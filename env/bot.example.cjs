@@ -60,6 +60,121 @@ process.env.ALLOWED_ORGANIZATIONS ??= "123,456"
 //process.env.KUSAMA_WEBSOCKET_ADDRESS ??= "ws://0.0.0.0:9945"
 //process.env.WESTEND_WEBSOCKET_ADDRESS ??= "ws://0.0.0.0:9946"
 
+/*
+  NOT REQUIRED
+  How many tasks can be executed at the same time. Tasks for the same
+  repository are always executed one at a time regardless of this value, while
+  tasks for different repositories are executed in parallel up to this limit.
+  Defaults to 1.
+*/
+//process.env.TASK_CONCURRENCY ??= 2
+
+/*
+  NOT REQUIRED
+  Maximum duration, in minutes, of tasks created from pull request comments and
+  from the API respectively. Tasks are not timed out by default.
+*/
+//process.env.PULL_REQUEST_TASK_TIMEOUT_MINUTES ??= 360
+//process.env.API_TASK_TIMEOUT_MINUTES ??= 720
+
+/*
+  NOT REQUIRED
+  How many seconds the processes of a task are given to exit after being sent
+  SIGTERM (on cancellation or timeout) before being sent SIGKILL. Defaults to
+  30.
+*/
+//process.env.TASK_KILL_GRACE_PERIOD_SECONDS ??= 30
+
+/*
+  NOT REQUIRED
+  Minimum free disk space, in gigabytes, which should be available before a
+  task starts. If the free space is below it, the least recently used target
+  directories and repositories are evicted until it's reached. The check is
+  disabled if this is not set.
+*/
+//process.env.MIN_FREE_DISK_SPACE_GB = 100
+
+/*
+  NOT REQUIRED
+  Maximum size, in gigabytes, of the cache of compiled binaries; the least
+  recently used binaries are evicted once it's exceeded. The cache is disabled
+  if this is not set.
+*/
+//process.env.BINARY_CACHE_MAX_SIZE_GB = 20
+
+/*
+  NOT REQUIRED
+  Maximum amount of pull request comments (or Matrix messages) which a task's
+  result is split into when it's too big for a single one. If the output still
+  doesn't fit, only its last lines are posted. Defaults to 10.
+*/
+//process.env.MAX_RESULT_MESSAGES = 10
+
+/*
+  NOT REQUIRED
+  Comma-separated list of what happens to a pull request's commands when new
+  commits are pushed to its branch, in the format owner/repo=policy. With
+  "cancel", both the queued and running commands are cancelled. With
+  "retarget", the queued commands are changed to test the branch's new head
+  commit while the running ones are left to finish. Repositories which are not
+  listed use "cancel".
+*/
+//process.env.PUSH_POLICIES = "paritytech/polkadot=retarget,paritytech/substrate=cancel"
+
+/*
+  NOT REQUIRED
+  Path of the node binary which is used for executing commands in runtime-only
+  mode, where only the runtime's WASM is compiled from the branch. The mode is
+  disabled if this is not set.
+*/
+//process.env.PREBUILT_NODE_BINARY = "/usr/local/bin/polkadot"
+
+/*
+  NOT REQUIRED
+  How many times a task may be attempted before it is no longer requeued when
+  the application restarts. An attempt is counted whenever the task crashed
+  while executing; tasks which didn't get to start don't use up attempts. 0
+  means that the tasks are never requeued. Defaults to 2.
+*/
+//process.env.PULL_REQUEST_TASK_MAX_ATTEMPTS ??= 2
+//process.env.API_TASK_MAX_ATTEMPTS ??= 2
+
+/*
+  NOT REQUIRED
+  How many seconds a task which crashed while executing waits before starting
+  again once it is requeued. The delay is doubled on each subsequent attempt.
+  Defaults to 0.
+*/
+//process.env.PULL_REQUEST_TASK_REQUEUE_BACKOFF_SECONDS ??= 0
+//process.env.API_TASK_REQUEUE_BACKOFF_SECONDS ??= 0
+
+/*
+  NOT REQUIRED
+  How many seconds the running tasks are given to finish once the application
+  is asked to shut down (through SIGTERM or SIGINT). Tasks which haven't
+  finished by then are interrupted and requeued on the next start. Defaults to
+  0, i.e. tasks are interrupted right away.
+*/
+//process.env.SHUTDOWN_DRAIN_TIMEOUT_SECONDS ??= 0
+
+/*
+  NOT REQUIRED
+  The URL where this server is reachable from the outside, which is used for
+  linking to the tasks' logs (served through /api/tasks/:handleId/log) in pull
+  request comments and Matrix messages.
+*/
+//process.env.PUBLIC_URL ??= "https://try-runtime.parity.io"
+
+/*
+  NOT REQUIRED
+  Retention limits for the history of finished tasks: at most
+  HISTORY_MAX_ENTRIES are kept and entries older than HISTORY_MAX_AGE_DAYS are
+  removed. Default to 10000 entries and 90 days respectively. The tasks' logs
+  are removed along with their history entries.
+*/
+//process.env.HISTORY_MAX_ENTRIES ??= 10000
+//process.env.HISTORY_MAX_AGE_DAYS ??= 90
+
 /*
   NOT REQUIRED
   The API interactions needs a Matrix-related variables to be configured for
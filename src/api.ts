@@ -1,19 +1,84 @@
 import Ajv from "ajv"
 import bodyParser from "body-parser"
-import { NextFunction, Response } from "express"
+import crypto from "crypto"
+import { isValid, parseISO } from "date-fns"
+import { NextFunction, Request, Response } from "express"
+import fs from "fs"
 import LevelErrors from "level-errors"
 import path from "path"
 import { Server } from "probot"
 
-import { KeyAlreadyExists } from "./db"
-import { getApiTaskHandle, getRegisterApiTaskHandle, queue } from "./executor"
-import { ApiTask, State } from "./types"
-import { displayCommand, getParsedArgs, getSendMatrixResult } from "./utils"
+import {
+  deleteSchedule,
+  getSchedule,
+  getSchedules,
+  getTaskHistory,
+  KeyAlreadyExists,
+  updateSchedule,
+} from "./db"
+import {
+  getApiTaskHandle,
+  getPullRequestTaskHandle,
+  getRegisterApiTaskHandle,
+  isAcceptingNewTasks,
+  queue,
+} from "./executor"
+import { getQueueEntries, renderQueueHtml } from "./queue"
+import { getScheduleValidationError } from "./schedule"
+import { ApiTask, Schedule, State } from "./types"
+import {
+  displayCommand,
+  escapeHtml,
+  getNodeRuns,
+  getParsedArgs,
+  getSendMatrixResult,
+  getTaskLogPath,
+} from "./utils"
 
 const getApiRoute = function (route: string) {
   return `/api${route}`
 }
 
+// The refs are passed as arguments to Git, thus they should not be mistaken for
+// options
+const gitArgumentPattern = "^[^-]"
+
+// Account and repository names are also part of URLs and of the repositories'
+// paths, thus they should not be able to refer to other directories
+const githubNamePattern = "^(?!-)(?!\\.$)(?!.*\\.\\.)[A-Za-z0-9_.-]+$"
+
+const gitRefSchema = {
+  type: "object",
+  properties: {
+    contributor: { type: "string", pattern: githubNamePattern },
+    owner: { type: "string", pattern: githubNamePattern },
+    repo: { type: "string", pattern: githubNamePattern },
+    branch: { type: "string", pattern: gitArgumentPattern },
+    // Abbreviated commits can't be fetched by Git, thus the full hash is
+    // required
+    sha: { type: "string", pattern: "^[0-9a-f]{40}$" },
+    mergeBase: { type: "string", pattern: gitArgumentPattern },
+  },
+  required: ["contributor", "owner", "repo", "branch"],
+}
+
+const runtimeOnlySchema = {
+  type: "object",
+  properties: { runtimePackage: { type: "string", minLength: 1 } },
+  required: ["runtimePackage"],
+  additionalProperties: false,
+}
+
+const scheduleProperties = {
+  cron: { type: "string" },
+  execPath: { type: "string" },
+  args: { type: "array", items: { type: "string" } },
+  env: { type: "object", patternProperties: { ".*": { type: "string" } } },
+  gitRef: gitRefSchema,
+  runtimeOnly: runtimeOnlySchema,
+  matrixRoom: { type: "string", minLength: 1 },
+}
+
 export const setupApi = function (server: Server, state: State) {
   const {
     accessDb,
@@ -23,6 +88,8 @@ export const setupApi = function (server: Server, state: State) {
     getUniqueId,
     version,
     nodesAddresses,
+    taskLogsDirectory,
+    prebuiltNodeBinary,
   } = state
 
   const respond = function <T>(
@@ -53,36 +120,77 @@ export const setupApi = function (server: Server, state: State) {
     respond(res, next, code, body === undefined ? undefined : { error: body })
   }
 
+  // Schedules can only be managed with the master token since they're able to
+  // send messages to any Matrix room
+  const isMasterTokenRequest = function (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ) {
+    const token = req.headers["x-auth"]
+    if (typeof token !== "string" || !token) {
+      err(res, next, 400, "Invalid auth token")
+      return false
+    }
+    if (token !== state.masterToken) {
+      err(res, next, 422, `Invalid ${token} for master token`)
+      return false
+    }
+    return true
+  }
+
+  // Responds with an error and returns undefined if the request's token is not
+  // valid. Otherwise returns the Matrix room which the personal token was
+  // created for, or null for the master token if it's allowed.
+  const getTokenMatrixRoom = async function (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    { isMasterTokenAllowed }: { isMasterTokenAllowed: boolean },
+  ) {
+    const token = req.headers["x-auth"]
+    if (typeof token !== "string" || !token) {
+      err(res, next, 400, "Invalid auth token")
+      return
+    }
+
+    if (isMasterTokenAllowed && token === state.masterToken) {
+      return null
+    }
+
+    try {
+      const matrixRoom = await accessDb.db.get(token)
+      if (!matrixRoom) {
+        throw new LevelErrors.NotFoundError("Not found")
+      }
+      return matrixRoom
+    } catch (error) {
+      if (error instanceof LevelErrors.NotFoundError) {
+        err(res, next, 404)
+      } else {
+        logger.fatal(error, "Unhandled error for database get")
+        err(res, next, 500)
+      }
+    }
+  }
+
   server.expressApp.use(bodyParser.json())
 
   server.expressApp.post(
     getApiRoute("/queue"),
     async function (req, res, next) {
       try {
-        const token = req.headers["x-auth"]
-        if (typeof token !== "string" || !token) {
-          return err(res, next, 400, "Invalid auth token")
+        const matrixRoom = await getTokenMatrixRoom(req, res, next, {
+          isMasterTokenAllowed: false,
+        })
+        if (typeof matrixRoom !== "string") {
+          return
         }
 
         if (matrix === null) {
           return err(res, next, 400, "Matrix is not configured for this server")
         }
 
-        let matrixRoom: string
-        try {
-          matrixRoom = await accessDb.db.get(token)
-          if (!matrixRoom) {
-            throw new LevelErrors.NotFoundError("Not found")
-          }
-        } catch (error) {
-          if (error instanceof LevelErrors.NotFoundError) {
-            return err(res, next, 404)
-          } else {
-            logger.fatal(error, "Unhandled error for database get")
-            return err(res, next, 500)
-          }
-        }
-
         const ajv = new Ajv()
         const validateQueueEndpointInput = ajv.compile({
           type: "object",
@@ -93,21 +201,22 @@ export const setupApi = function (server: Server, state: State) {
               type: "object",
               patternProperties: { ".*": { type: "string" } },
             },
-            gitRef: {
-              type: "object",
-              properties: {
-                contributor: { type: "string" },
-                owner: { type: "string" },
-                repo: { type: "string" },
-                branch: { type: "string" },
-              },
-              required: ["contributor", "owner", "repo", "branch"],
-            },
+            gitRef: gitRefSchema,
             secretsToHide: { type: "array", items: { type: "string" } },
+            runtimeOnly: runtimeOnlySchema,
           },
           required: ["execPath", "args", "gitRef"],
           additionalProperties: false,
         })
+        if (!isAcceptingNewTasks()) {
+          return err(
+            res,
+            next,
+            503,
+            "The bot is shutting down and can't accept new tasks right now",
+          )
+        }
+
         const isInputValid = validateQueueEndpointInput(req.body)
         if (!isInputValid) {
           return err(res, next, 400, validateQueueEndpointInput.errors)
@@ -119,31 +228,54 @@ export const setupApi = function (server: Server, state: State) {
           gitRef,
           secretsToHide = [],
           env = {},
-        }: Pick<ApiTask, "execPath" | "args" | "gitRef"> & {
+          runtimeOnly,
+        }: Pick<ApiTask, "execPath" | "args" | "gitRef" | "runtimeOnly"> & {
           env?: ApiTask["env"]
           secretsToHide?: string[]
         } = req.body
 
-        const args = getParsedArgs(nodesAddresses, inputArgs)
-        if (typeof args === "string") {
-          return err(res, next, 422, args)
+        if (runtimeOnly !== undefined && prebuiltNodeBinary === null) {
+          return err(
+            res,
+            next,
+            422,
+            "The runtime-only mode is not available since no prebuilt node binary is configured",
+          )
         }
 
-        const commandDisplay = displayCommand({ execPath, args, secretsToHide })
+        const parsedArgs = getParsedArgs(nodesAddresses, inputArgs)
+        if (typeof parsedArgs === "string") {
+          return err(res, next, 422, parsedArgs)
+        }
+        const [{ args }] = parsedArgs
+        const nodeRuns = getNodeRuns(parsedArgs)
+
+        const commandDisplay = displayCommand({
+          execPath,
+          // The node names are more readable than their addresses when the
+          // command is executed for multiple nodes
+          args: nodeRuns === undefined ? args : inputArgs,
+          secretsToHide,
+        })
         const handleId = getUniqueId()
 
+        const entriesAhead = await getQueueEntries(state, { version })
+
         const taskData: ApiTask = {
           tag: "ApiTask",
           version,
           handleId,
           timesRequeued: 0,
-          timesRequeuedSnapshotBeforeExecution: 0,
-          timesExecuted: 0,
+          timesAttempted: 0,
+          phases: [],
           commandDisplay,
           execPath,
           args,
           env,
+          secretsToHide,
           gitRef,
+          nodeRuns,
+          runtimeOnly,
           matrixRoom,
           repoPath: path.join(repositoryCloneDirectory, gitRef.repo),
         }
@@ -151,10 +283,28 @@ export const setupApi = function (server: Server, state: State) {
         const message = await queue({
           state,
           taskData,
-          onResult: getSendMatrixResult(matrix, logger, taskData),
+          onResult: getSendMatrixResult(matrix, state, taskData),
           registerHandle: getRegisterApiTaskHandle(taskData),
         })
 
+        if (entriesAhead.length) {
+          try {
+            await matrix.sendHtmlText(
+              matrixRoom,
+              `Queued <code>${escapeHtml(
+                commandDisplay,
+              )}</code>; there are other items ahead of it in the queue:\n${renderQueueHtml(
+                entriesAhead,
+              )}`,
+            )
+          } catch (error) {
+            logger.fatal(
+              error?.body?.error,
+              "Caught error when sending matrix message",
+            )
+          }
+        }
+
         respond(res, next, 201, {
           message,
           handleId,
@@ -190,6 +340,181 @@ export const setupApi = function (server: Server, state: State) {
     },
   )
 
+  server.expressApp.get(
+    getApiRoute("/tasks/:handleId/log"),
+    async function (req, res, next) {
+      try {
+        const { handleId } = req.params
+        const logPath = getTaskLogPath(taskLogsDirectory, handleId)
+        if (!fs.existsSync(logPath)) {
+          return err(res, next, 404)
+        }
+
+        const isTaskRunning = function () {
+          return (
+            getPullRequestTaskHandle(handleId) !== undefined ||
+            getApiTaskHandle(handleId) !== undefined
+          )
+        }
+
+        if (req.headers.accept !== "text/event-stream") {
+          res.status(200).type("text/plain")
+          fs.createReadStream(logPath).pipe(res)
+          return
+        }
+
+        // Server-Sent Events: send what has been written to the log so far and
+        // then keep sending whatever is appended to it until the task finishes
+        res
+          .status(200)
+          .set({
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            Connection: "keep-alive",
+          })
+        res.flushHeaders()
+
+        let offset = 0
+        let pendingLine = ""
+        const sendNewContent = async function () {
+          const { size } = await fs.promises.stat(logPath)
+          if (size < offset) {
+            // The log was truncated because a new task started for the same
+            // handle
+            offset = 0
+            pendingLine = ""
+          }
+          if (size === offset) {
+            return false
+          }
+
+          const file = await fs.promises.open(logPath, "r")
+          try {
+            const buf = Buffer.alloc(size - offset)
+            await file.read(buf, 0, buf.length, offset)
+            offset = size
+
+            const lines = `${pendingLine}${buf.toString()}`.split("\n")
+            pendingLine = lines.pop() ?? ""
+            for (const line of lines) {
+              res.write(`data: ${line}\n\n`)
+            }
+          } finally {
+            await file.close()
+          }
+
+          return true
+        }
+
+        let isSending = false
+        const interval = setInterval(async function () {
+          if (isSending) {
+            return
+          }
+          isSending = true
+          try {
+            if (!(await sendNewContent()) && !isTaskRunning()) {
+              if (pendingLine) {
+                res.write(`data: ${pendingLine}\n\n`)
+              }
+              res.write("event: end\ndata: \n\n")
+              clearInterval(interval)
+              res.end()
+            }
+          } catch (error) {
+            logger.fatal(error, `Failed to stream the log of ${handleId}`)
+            clearInterval(interval)
+            res.end()
+          } finally {
+            isSending = false
+          }
+        }, 1000)
+        req.on("close", function () {
+          clearInterval(interval)
+        })
+
+        await sendNewContent()
+      } catch (error) {
+        return serverError(res, next, error)
+      }
+    },
+  )
+
+  server.expressApp.get(getApiRoute("/queue"), async function (req, res, next) {
+    try {
+      if (
+        (await getTokenMatrixRoom(req, res, next, {
+          isMasterTokenAllowed: true,
+        })) === undefined
+      ) {
+        return
+      }
+
+      respond(res, next, 200, await getQueueEntries(state, { version }))
+    } catch (error) {
+      return serverError(res, next, error)
+    }
+  })
+
+  server.expressApp.get(
+    getApiRoute("/history"),
+    async function (req, res, next) {
+      try {
+        // Personal tokens only get to see the tasks of their own Matrix room
+        // since the entries include the tasks' environment and output
+        const matrixRoom = await getTokenMatrixRoom(req, res, next, {
+          isMasterTokenAllowed: true,
+        })
+        if (matrixRoom === undefined) {
+          return
+        }
+
+        const { repo, pullNumber, node, since } = req.query
+
+        if (repo !== undefined && typeof repo !== "string") {
+          return err(res, next, 400, "Invalid repo")
+        }
+
+        let parsedPullNumber: number | undefined = undefined
+        if (pullNumber !== undefined) {
+          parsedPullNumber =
+            typeof pullNumber === "string" ? parseInt(pullNumber) : NaN
+          if (isNaN(parsedPullNumber)) {
+            return err(res, next, 400, "Invalid pullNumber")
+          }
+        }
+
+        if (node !== undefined && typeof node !== "string") {
+          return err(res, next, 400, "Invalid node")
+        }
+
+        let parsedSince: Date | undefined = undefined
+        if (since !== undefined) {
+          parsedSince =
+            typeof since === "string" ? parseISO(since) : new Date(NaN)
+          if (!isValid(parsedSince)) {
+            return err(res, next, 400, "Invalid since date")
+          }
+        }
+
+        respond(
+          res,
+          next,
+          200,
+          await getTaskHistory(state, {
+            repo,
+            pullNumber: parsedPullNumber,
+            node,
+            since: parsedSince,
+            matrixRoom: matrixRoom ?? undefined,
+          }),
+        )
+      } catch (error) {
+        return serverError(res, next, error)
+      }
+    },
+  )
+
   server.expressApp.post(
     getApiRoute("/access"),
     async function (req, res, next) {
@@ -297,4 +622,166 @@ export const setupApi = function (server: Server, state: State) {
       }
     },
   )
+
+  server.expressApp.get(
+    getApiRoute("/schedules"),
+    async function (req, res, next) {
+      try {
+        if (!isMasterTokenRequest(req, res, next)) {
+          return
+        }
+
+        respond(res, next, 200, await getSchedules(state))
+      } catch (error) {
+        return serverError(res, next, error)
+      }
+    },
+  )
+
+  server.expressApp.get(
+    getApiRoute("/schedules/:id"),
+    async function (req, res, next) {
+      try {
+        if (!isMasterTokenRequest(req, res, next)) {
+          return
+        }
+
+        const schedule = await getSchedule(state, req.params.id)
+        if (schedule === undefined) {
+          return err(res, next, 404)
+        }
+
+        respond(res, next, 200, schedule)
+      } catch (error) {
+        return serverError(res, next, error)
+      }
+    },
+  )
+
+  server.expressApp.post(
+    getApiRoute("/schedules"),
+    async function (req, res, next) {
+      try {
+        if (!isMasterTokenRequest(req, res, next)) {
+          return
+        }
+
+        if (matrix === null) {
+          return err(res, next, 400, "Matrix is not configured for this server")
+        }
+
+        const ajv = new Ajv()
+        const validateScheduleInput = ajv.compile({
+          type: "object",
+          properties: scheduleProperties,
+          required: ["cron", "execPath", "args", "gitRef", "matrixRoom"],
+          additionalProperties: false,
+        })
+        const isInputValid = validateScheduleInput(req.body)
+        if (!isInputValid) {
+          return err(res, next, 400, validateScheduleInput.errors)
+        }
+
+        const {
+          cron,
+          execPath,
+          args,
+          env = {},
+          gitRef,
+          runtimeOnly,
+          matrixRoom,
+        }: Omit<Schedule, "id" | "env" | "createdDate"> & {
+          env?: Schedule["env"]
+        } = req.body
+
+        const schedule: Schedule = {
+          id: crypto.randomUUID(),
+          cron,
+          execPath,
+          args,
+          env,
+          gitRef,
+          runtimeOnly,
+          matrixRoom,
+          createdDate: new Date().toISOString(),
+        }
+
+        const validationError = getScheduleValidationError(state, schedule)
+        if (validationError !== undefined) {
+          return err(res, next, 422, validationError)
+        }
+
+        await state.scheduleDb.db.put(schedule.id, JSON.stringify(schedule))
+        respond(res, next, 201, schedule)
+      } catch (error) {
+        return serverError(res, next, error)
+      }
+    },
+  )
+
+  server.expressApp.patch(
+    getApiRoute("/schedules/:id"),
+    async function (req, res, next) {
+      try {
+        if (!isMasterTokenRequest(req, res, next)) {
+          return
+        }
+
+        const ajv = new Ajv()
+        const validateScheduleInput = ajv.compile({
+          type: "object",
+          properties: scheduleProperties,
+          additionalProperties: false,
+        })
+        const isInputValid = validateScheduleInput(req.body)
+        if (!isInputValid) {
+          return err(res, next, 400, validateScheduleInput.errors)
+        }
+        const changes: Partial<
+          Omit<Schedule, "id" | "createdDate" | "lastRun" | "lastOutcome">
+        > = req.body
+
+        let validationError: string | undefined = undefined
+        const schedule = await updateSchedule(
+          state,
+          req.params.id,
+          function (schedule) {
+            const updatedSchedule = { ...schedule, ...changes }
+            validationError = getScheduleValidationError(state, updatedSchedule)
+            return validationError === undefined ? updatedSchedule : schedule
+          },
+        )
+        if (schedule === undefined) {
+          return err(res, next, 404)
+        }
+        if (validationError !== undefined) {
+          return err(res, next, 422, validationError)
+        }
+
+        respond(res, next, 200, schedule)
+      } catch (error) {
+        return serverError(res, next, error)
+      }
+    },
+  )
+
+  server.expressApp.delete(
+    getApiRoute("/schedules/:id"),
+    async function (req, res, next) {
+      try {
+        if (!isMasterTokenRequest(req, res, next)) {
+          return
+        }
+
+        const schedule = await deleteSchedule(state, req.params.id)
+        if (schedule === undefined) {
+          return err(res, next, 404)
+        }
+
+        respond(res, next, 204)
+      } catch (error) {
+        return serverError(res, next, error)
+      }
+    },
+  )
 }
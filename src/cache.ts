@@ -0,0 +1,312 @@
+import crypto from "crypto"
+import fs from "fs"
+import path from "path"
+
+import type { ShellExecutor } from "./executor"
+import { State, TaskResultDetails } from "./types"
+import { ensureDir, removeDir } from "./utils"
+
+// Cached binaries are identified by everything which might affect the
+// compilation's outcome
+export type BinaryCacheKey = {
+  repo: string
+  sha: string
+  mergeBaseSha?: string
+  // The arguments of `cargo build`, which include the features and profile
+  buildArgs: string[]
+  // Digest of the task's environment variables, which might affect the build
+  // (e.g. RUSTFLAGS or SKIP_WASM_BUILD); the variables themselves are not
+  // stored since they might hold secrets
+  envDigest: string
+  // Output of `rustc --version` for the toolchain which would be used
+  toolchain: string
+}
+
+type BinaryCacheEntry = BinaryCacheKey & {
+  binaryName: string
+  size: number
+}
+
+const metadataFile = "metadata.json"
+
+// Entries which are being executed are not evicted; maps the entry's ID to how
+// many tasks are using it
+const entriesInUse: Map<string, number> = new Map()
+
+const getEntryId = function ({
+  repo,
+  sha,
+  mergeBaseSha,
+  buildArgs,
+  envDigest,
+  toolchain,
+}: BinaryCacheKey) {
+  return crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify([
+        repo,
+        sha,
+        mergeBaseSha,
+        buildArgs,
+        envDigest,
+        toolchain,
+      ]),
+    )
+    .digest("hex")
+}
+
+const getEnvDigest = function (env: Record<string, string>) {
+  return crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify(
+        Object.entries(env).sort(function ([a], [b]) {
+          return a < b ? -1 : a > b ? 1 : 0
+        }),
+      ),
+    )
+    .digest("hex")
+}
+
+export const getBinaryCacheKey = async function (
+  run: ShellExecutor,
+  {
+    repo,
+    testedRevision,
+    buildCommand,
+    env,
+    options,
+  }: {
+    repo: string
+    testedRevision: TaskResultDetails
+    // The task's own environment variables
+    env: Record<string, string>
+    buildCommand: { args: string[]; toolchainArgs: string[] }
+    options: { env: NodeJS.ProcessEnv; cwd: string }
+  },
+): Promise<BinaryCacheKey | undefined> {
+  if (
+    testedRevision.sha === undefined ||
+    // The build's output is parsed with a specific message format
+    buildCommand.args.find(function (arg) {
+      return arg.startsWith("--message-format")
+    }) !== undefined
+  ) {
+    return
+  }
+
+  // rustc is executed from the project's directory so that its toolchain file
+  // is taken into account
+  const toolchain = await run(
+    "rustc",
+    [...buildCommand.toolchainArgs, "--version"],
+    { options },
+  )
+  if (toolchain instanceof Error) {
+    return
+  }
+
+  return {
+    repo,
+    sha: testedRevision.sha,
+    mergeBaseSha: testedRevision.mergeBase?.sha,
+    buildArgs: buildCommand.args,
+    envDigest: getEnvDigest(env),
+    toolchain,
+  }
+}
+
+const readEntry = async function (entryDir: string) {
+  try {
+    return JSON.parse(
+      await fs.promises.readFile(path.join(entryDir, metadataFile), "utf8"),
+    ) as BinaryCacheEntry
+  } catch {
+    return undefined
+  }
+}
+
+const acquireEntry = function (
+  entryId: string,
+  binaryPath: string,
+): CachedBinary {
+  entriesInUse.set(entryId, (entriesInUse.get(entryId) ?? 0) + 1)
+  let isReleased = false
+  return {
+    binaryPath,
+    release: function () {
+      if (isReleased) {
+        return
+      }
+      isReleased = true
+      const count = (entriesInUse.get(entryId) ?? 1) - 1
+      if (count) {
+        entriesInUse.set(entryId, count)
+      } else {
+        entriesInUse.delete(entryId)
+      }
+    },
+  }
+}
+
+export type CachedBinary = { binaryPath: string; release: () => void }
+
+export const getCachedBinary = async function (
+  { binaryCache }: Pick<State, "binaryCache">,
+  key: BinaryCacheKey,
+): Promise<CachedBinary | undefined> {
+  if (binaryCache === null) {
+    return
+  }
+
+  const entryId = getEntryId(key)
+  const entryDir = path.join(binaryCache.directory, entryId)
+  const entry = await readEntry(entryDir)
+  if (entry === undefined) {
+    return
+  }
+
+  const binaryPath = path.join(entryDir, entry.binaryName)
+  if (!fs.existsSync(binaryPath)) {
+    return
+  }
+
+  // The metadata file's modification time tracks when the entry was last used
+  const now = new Date()
+  await fs.promises.utimes(path.join(entryDir, metadataFile), now, now)
+
+  return acquireEntry(entryId, binaryPath)
+}
+
+// Checks if there's a cached build for the commit regardless of the toolchain,
+// which is only known once the repository is checked out
+export const hasCachedBuildForCommit = async function (
+  { binaryCache }: Pick<State, "binaryCache">,
+  {
+    repo,
+    sha,
+    buildArgs,
+    env,
+  }: Pick<BinaryCacheKey, "repo" | "sha" | "buildArgs"> & {
+    env: Record<string, string>
+  },
+) {
+  const envDigest = getEnvDigest(env)
+  if (binaryCache === null || !fs.existsSync(binaryCache.directory)) {
+    return false
+  }
+
+  for (const entryId of await fs.promises.readdir(binaryCache.directory)) {
+    const entry = await readEntry(path.join(binaryCache.directory, entryId))
+    if (
+      entry !== undefined &&
+      entry.repo === repo &&
+      entry.sha === sha &&
+      entry.mergeBaseSha === undefined &&
+      entry.envDigest === envDigest &&
+      JSON.stringify(entry.buildArgs) === JSON.stringify(buildArgs)
+    ) {
+      return true
+    }
+  }
+
+  return false
+}
+
+// Finds the binary produced by a build which used
+// --message-format=json-render-diagnostics; if there's more than one binary,
+// it can't be known which one would be executed by `cargo run`
+export const getBuiltExecutable = function (buildOutput: string) {
+  const executables: Set<string> = new Set()
+  for (const line of buildOutput.split("\n")) {
+    if (!line.startsWith("{")) {
+      continue
+    }
+    try {
+      const message = JSON.parse(line)
+      if (
+        message.reason === "compiler-artifact" &&
+        typeof message.executable === "string" &&
+        (message.target?.kind as string[] | undefined)?.includes("bin") === true
+      ) {
+        executables.add(message.executable)
+      }
+    } catch {}
+  }
+  return executables.size === 1 ? [...executables][0] : undefined
+}
+
+const evictEntries = async function ({
+  logger,
+  binaryCache,
+}: Pick<State, "logger" | "binaryCache">) {
+  if (binaryCache === null) {
+    return
+  }
+
+  const entries: { entryId: string; size: number; lastUse: Date }[] = []
+  for (const entryId of await fs.promises.readdir(binaryCache.directory)) {
+    const entryDir = path.join(binaryCache.directory, entryId)
+    const entry = await readEntry(entryDir)
+    // Entries without metadata are still being stored
+    if (entry === undefined) {
+      continue
+    }
+    const { mtime } = await fs.promises.stat(path.join(entryDir, metadataFile))
+    entries.push({ entryId, size: entry.size, lastUse: mtime })
+  }
+  entries.sort(function (a, b) {
+    return a.lastUse.getTime() - b.lastUse.getTime()
+  })
+
+  let totalSize = entries.reduce(function (acc, { size }) {
+    return acc + size
+  }, 0)
+  for (const { entryId, size } of entries) {
+    if (totalSize <= binaryCache.maxSize) {
+      break
+    }
+    if (entriesInUse.has(entryId)) {
+      continue
+    }
+    logger.info(`Evicting the cached binary ${entryId}`)
+    await removeDir(path.join(binaryCache.directory, entryId))
+    totalSize -= size
+  }
+}
+
+export const storeCachedBinary = async function (
+  state: Pick<State, "logger" | "binaryCache">,
+  key: BinaryCacheKey,
+  executable: string,
+): Promise<CachedBinary | undefined> {
+  const { binaryCache, logger } = state
+  if (binaryCache === null) {
+    return
+  }
+
+  const entryId = getEntryId(key)
+  const entryDir = path.join(binaryCache.directory, entryId)
+  try {
+    await ensureDir(entryDir)
+    const binaryName = path.basename(executable)
+    const binaryPath = path.join(entryDir, binaryName)
+    await fs.promises.copyFile(executable, binaryPath)
+    const { size } = await fs.promises.stat(binaryPath)
+    const entry: BinaryCacheEntry = { ...key, binaryName, size }
+    // The metadata is written last since its presence marks the entry as
+    // complete
+    await fs.promises.writeFile(
+      path.join(entryDir, metadataFile),
+      JSON.stringify(entry),
+    )
+
+    const cachedBinary = acquireEntry(entryId, binaryPath)
+    await evictEntries(state)
+    return cachedBinary
+  } catch (error) {
+    logger.error(error, `Failed to cache the binary ${executable}`)
+    await removeDir(entryDir)
+  }
+}
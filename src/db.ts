@@ -1,10 +1,12 @@
 import type { AbstractIterator, AbstractLevelDOWN } from "abstract-leveldown"
-import { isBefore } from "date-fns"
+import { Mutex } from "async-mutex"
+import { isBefore, parseISO, subDays } from "date-fns"
+import LevelErrors from "level-errors"
 // @ts-ignore because level-rocksdb is not typed
 import getLevelDb from "level-rocksdb"
 import type { LevelUp } from "levelup"
 
-import { State, Task } from "./types"
+import { Schedule, State, Task, TaskHistoryEntry } from "./types"
 
 type DbKey = string
 type DbValue = string
@@ -24,6 +26,14 @@ export class AccessDB {
   constructor(public db: DB) {}
 }
 
+export class HistoryDB {
+  constructor(public db: DB) {}
+}
+
+export class ScheduleDB {
+  constructor(public db: DB) {}
+}
+
 export class KeyAlreadyExists {}
 
 export const getSortedTasks = async function (
@@ -82,3 +92,192 @@ export const getSortedTasks = async function (
 
   return items
 }
+
+// History entries are keyed by their task ID, which starts with the date of
+// when the task was created, thus they're read in chronological order
+const getHistoryEntries = function (db: DB) {
+  return new Promise<{ key: DbKey; entry: TaskHistoryEntry }[]>(function (
+    resolve,
+    reject,
+  ) {
+    const items: { key: DbKey; entry: TaskHistoryEntry }[] = []
+
+    db.createReadStream()
+      .on("data", function ({ key, value }) {
+        try {
+          items.push({ key, entry: JSON.parse(value.toString()) })
+        } catch (error) {
+          reject(error)
+        }
+      })
+      .on("error", function (error) {
+        reject(error)
+      })
+      .on("end", function () {
+        resolve(items)
+      })
+  })
+}
+
+// Returns the handle IDs of the tasks which are not in the history anymore
+export const recordTaskHistory = async function (
+  {
+    historyDb: { db },
+    historyRetention: { maxEntries, maxAgeDays },
+  }: Pick<State, "historyDb" | "historyRetention">,
+  entry: TaskHistoryEntry,
+) {
+  await db.put(entry.taskId, JSON.stringify(entry))
+
+  const items = await getHistoryEntries(db)
+  const excessCount = items.length - maxEntries
+  const oldestAllowedDate = subDays(new Date(), maxAgeDays)
+  const prunedHandleIds: Set<string> = new Set()
+  const keptHandleIds: Set<string> = new Set()
+  for (const [i, { key, entry }] of items.entries()) {
+    if (
+      i < excessCount ||
+      isBefore(parseISO(entry.endDate), oldestAllowedDate)
+    ) {
+      await db.del(key)
+      prunedHandleIds.add(entry.task.handleId)
+    } else {
+      keptHandleIds.add(entry.task.handleId)
+    }
+  }
+
+  // Handle IDs might be shared by multiple entries, e.g. if a task was retried
+  return [...prunedHandleIds].filter(function (handleId) {
+    return !keptHandleIds.has(handleId)
+  })
+}
+
+export const getTaskHistory = async function (
+  {
+    historyDb: { db },
+    nodesAddresses,
+  }: Pick<State, "historyDb" | "nodesAddresses">,
+  {
+    repo,
+    pullNumber,
+    node,
+    since,
+    matrixRoom,
+  }: {
+    repo?: string
+    pullNumber?: number
+    node?: string
+    since?: Date
+    // If specified, only the API tasks of this Matrix room are included
+    matrixRoom?: string
+  },
+) {
+  const nodeAddress = node === undefined ? undefined : nodesAddresses[node]
+
+  return (await getHistoryEntries(db))
+    .map(function ({ entry }) {
+      return entry
+    })
+    .filter(function ({ task, endDate }) {
+      if (
+        matrixRoom !== undefined &&
+        (task.tag !== "ApiTask" || task.matrixRoom !== matrixRoom)
+      ) {
+        return false
+      }
+      if (repo !== undefined && task.gitRef.repo !== repo) {
+        return false
+      }
+      if (
+        pullNumber !== undefined &&
+        (task.tag !== "PullRequestTask" || task.pull_number !== pullNumber)
+      ) {
+        return false
+      }
+      if (
+        node !== undefined &&
+        (nodeAddress === undefined ||
+          !task.args.find(function (arg) {
+            return arg.includes(nodeAddress)
+          }))
+      ) {
+        return false
+      }
+      if (since !== undefined && isBefore(parseISO(endDate), since)) {
+        return false
+      }
+      return true
+    })
+}
+
+export const getSchedules = function ({
+  scheduleDb: { db },
+}: Pick<State, "scheduleDb">) {
+  return new Promise<Schedule[]>(function (resolve, reject) {
+    const schedules: Schedule[] = []
+
+    db.createReadStream()
+      .on("data", function ({ value }) {
+        try {
+          schedules.push(JSON.parse(value.toString()))
+        } catch (error) {
+          reject(error)
+        }
+      })
+      .on("error", function (error) {
+        reject(error)
+      })
+      .on("end", function () {
+        resolve(schedules)
+      })
+  })
+}
+
+// Schedules are modified both by the API and by their runs, thus updates are
+// serialized so that they don't overwrite each other
+const scheduleMutex = new Mutex()
+
+export const getSchedule = async function (
+  { scheduleDb: { db } }: Pick<State, "scheduleDb">,
+  id: string,
+) {
+  try {
+    return JSON.parse(await db.get(id)) as Schedule
+  } catch (error) {
+    if (error instanceof LevelErrors.NotFoundError) {
+      return undefined
+    }
+    throw error
+  }
+}
+
+// Returns the updated schedule or undefined if it doesn't exist
+export const updateSchedule = function (
+  state: Pick<State, "scheduleDb">,
+  id: string,
+  update: (schedule: Schedule) => Schedule,
+) {
+  return scheduleMutex.runExclusive(async function () {
+    const schedule = await getSchedule(state, id)
+    if (schedule === undefined) {
+      return undefined
+    }
+    const updatedSchedule = update(schedule)
+    await state.scheduleDb.db.put(id, JSON.stringify(updatedSchedule))
+    return updatedSchedule
+  })
+}
+
+// Returns the deleted schedule or undefined if it doesn't exist
+export const deleteSchedule = function (
+  state: Pick<State, "scheduleDb">,
+  id: string,
+) {
+  return scheduleMutex.runExclusive(async function () {
+    const schedule = await getSchedule(state, id)
+    if (schedule !== undefined) {
+      await state.scheduleDb.db.del(id)
+    }
+    return schedule
+  })
+}
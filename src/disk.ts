@@ -0,0 +1,196 @@
+import cp from "child_process"
+import fs from "fs"
+import path from "path"
+import { promisify } from "util"
+
+import { State } from "./types"
+import { removeDir } from "./utils"
+
+const cpExecFile = promisify(cp.execFile)
+
+// The modification time of this file tracks when the repository was last used
+// by a task; it's kept inside of the .git directory so that it doesn't show up
+// in the working tree
+const lastUseMarkerFile = path.join(".git", "try-runtime-bot-last-use")
+
+// Repositories which are being used by tasks are never evicted
+const repositoriesInUse: Set<string> = new Set()
+
+// All worktrees of a repository share the same target directory so that
+// dependencies don't have to be compiled from scratch for every task; Cargo
+// already holds a lock on the target directory while it's being used.
+export const getCargoTargetDir = function (repoPath: string) {
+  return process.env.CARGO_TARGET_DIR ?? path.join(repoPath, "target")
+}
+
+const markRepositoryUsage = async function (repoPath: string) {
+  const markerPath = path.join(repoPath, lastUseMarkerFile)
+  if (!fs.existsSync(path.dirname(markerPath))) {
+    return
+  }
+  const now = new Date()
+  try {
+    await fs.promises.utimes(markerPath, now, now)
+  } catch {
+    await fs.promises.writeFile(markerPath, "")
+  }
+}
+
+export const acquireRepository = async function (repoPath: string) {
+  repositoriesInUse.add(repoPath)
+  await markRepositoryUsage(repoPath)
+}
+
+export const releaseRepository = async function (repoPath: string) {
+  repositoriesInUse.delete(repoPath)
+  await markRepositoryUsage(repoPath)
+}
+
+const getLastUse = async function (repoPath: string) {
+  for (const file of [path.join(repoPath, lastUseMarkerFile), repoPath]) {
+    try {
+      return (await fs.promises.stat(file)).mtime
+    } catch {}
+  }
+  return new Date(0)
+}
+
+// Free space in bytes of the filesystem where the directory is located
+export const getFreeDiskSpace = async function (dir: string) {
+  const { stdout } = await cpExecFile("df", ["-Pk", dir])
+  const lastLine = stdout.trim().split("\n").slice(-1)[0]
+  const availableKilobytes = parseInt(lastLine.split(/\s+/)[3])
+  if (isNaN(availableKilobytes)) {
+    throw new Error(`Unable to parse the output of df for ${dir}: ${stdout}`)
+  }
+  return availableKilobytes * 1024
+}
+
+export const displayDiskSpace = function (bytes: number) {
+  return `${(bytes / 1024 ** 3).toFixed(1)} GB`
+}
+
+// The space which is freed for retrying a command which ran out of disk space
+// if no minimum free space is configured
+export const defaultRetryFreeSpace = 20 * 1024 ** 3
+
+export type DiskEviction = {
+  kind: "target directory" | "repository"
+  path: string
+  lastUse: Date
+}
+
+// Evicts the least recently used target directories and then the least
+// recently used repositories until the free space is at least
+// minimumFreeSpace (in bytes); the repositories which are in use are left
+// untouched. If the repository of the task which is requesting the space is
+// specified, its own target directory is evicted as a last resort.
+export const freeDiskSpace = async function (
+  {
+    logger,
+    repositoryCloneDirectory,
+    worktreesDirectory,
+  }: Pick<State, "logger" | "repositoryCloneDirectory" | "worktreesDirectory">,
+  {
+    minimumFreeSpace,
+    currentRepository,
+  }: { minimumFreeSpace: number; currentRepository?: string },
+) {
+  const evictions: DiskEviction[] = []
+
+  let freeSpace = await getFreeDiskSpace(repositoryCloneDirectory)
+  if (freeSpace >= minimumFreeSpace) {
+    return evictions
+  }
+
+  const repositories: { path: string; lastUse: Date }[] = []
+  for (const entry of await fs.promises.readdir(repositoryCloneDirectory, {
+    withFileTypes: true,
+  })) {
+    const repoPath = path.join(repositoryCloneDirectory, entry.name)
+    if (
+      !entry.isDirectory() ||
+      repoPath === worktreesDirectory ||
+      repositoriesInUse.has(repoPath) ||
+      !fs.existsSync(path.join(repoPath, ".git"))
+    ) {
+      continue
+    }
+    repositories.push({ path: repoPath, lastUse: await getLastUse(repoPath) })
+  }
+  repositories.sort(function (a, b) {
+    return a.lastUse.getTime() - b.lastUse.getTime()
+  })
+
+  const candidates: DiskEviction[] = []
+  if (process.env.CARGO_TARGET_DIR === undefined) {
+    for (const { path: repoPath, lastUse } of repositories) {
+      candidates.push({
+        kind: "target directory",
+        path: getCargoTargetDir(repoPath),
+        lastUse,
+      })
+    }
+  } else if (repositoriesInUse.size <= 1) {
+    // The shared target directory is only evicted if at most the repository
+    // which is requesting the space is using it
+    candidates.push({
+      kind: "target directory",
+      path: process.env.CARGO_TARGET_DIR,
+      lastUse: new Date(),
+    })
+  }
+  for (const repository of repositories) {
+    candidates.push({ kind: "repository", ...repository })
+  }
+  if (
+    currentRepository !== undefined &&
+    process.env.CARGO_TARGET_DIR === undefined
+  ) {
+    candidates.push({
+      kind: "target directory",
+      path: getCargoTargetDir(currentRepository),
+      lastUse: new Date(),
+    })
+  }
+
+  for (const candidate of candidates) {
+    if (!fs.existsSync(candidate.path)) {
+      continue
+    }
+
+    logger.info(
+      candidate,
+      `Evicting the ${candidate.kind} ${
+        candidate.path
+      } for freeing disk space (currently ${displayDiskSpace(freeSpace)} free)`,
+    )
+    await removeDir(candidate.path)
+    evictions.push(candidate)
+
+    freeSpace = await getFreeDiskSpace(repositoryCloneDirectory)
+    if (freeSpace >= minimumFreeSpace) {
+      break
+    }
+  }
+
+  if (freeSpace < minimumFreeSpace) {
+    logger.error(
+      `Free disk space (${displayDiskSpace(
+        freeSpace,
+      )}) is still below ${displayDiskSpace(
+        minimumFreeSpace,
+      )} after evicting everything which is not in use`,
+    )
+  }
+
+  return evictions
+}
+
+export const displayDiskEvictions = function (evictions: DiskEviction[]) {
+  return evictions
+    .map(function ({ kind, path: evictedPath }) {
+      return `${kind} ${evictedPath}`
+    })
+    .join(", ")
+}
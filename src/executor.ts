@@ -1,38 +1,118 @@
-import { Mutex } from "async-mutex"
 import cp from "child_process"
+import crypto from "crypto"
 import fs from "fs"
 import path from "path"
 import { promisify } from "util"
 
-import { getSortedTasks } from "src/db"
+import { getSortedTasks, recordTaskHistory } from "src/db"
 
-import { getPostPullRequestResult, updateComment } from "./github"
+import {
+  CachedBinary,
+  getBinaryCacheKey,
+  getBuiltExecutable,
+  getCachedBinary,
+  hasCachedBuildForCommit,
+  storeCachedBinary,
+} from "./cache"
+import {
+  acquireRepository,
+  defaultRetryFreeSpace,
+  DiskEviction,
+  displayDiskEvictions,
+  freeDiskSpace,
+  getCargoTargetDir,
+  releaseRepository,
+} from "./disk"
+import { classifyFailure, FailureRecovery } from "./failures"
+import {
+  getOctokit,
+  getPostPullRequestResult,
+  getPullRequestStatusReporter,
+  getPullRequestTaskHeader,
+  updateComment,
+} from "./github"
 import { Logger } from "./logger"
+import {
+  isTryRuntimeSummaryEmpty,
+  summarizeTryRuntimeOutput,
+  TryRuntimeSummary,
+} from "./output"
+import { getQueueEntries, renderQueueMarkdown } from "./queue"
+import {
+  findRuntimeWasm,
+  getCargoProfile,
+  getFileSha256,
+  getRuntimeOnlyProgramArgs,
+  RuntimeOnlyDetails,
+} from "./runtime"
 import {
   ApiTask,
   CommandOutput,
+  FinishedTaskOutcome,
+  NodeResult,
   Octokit,
+  PullRequestParams,
   PullRequestTask,
   State,
   Task,
+  TaskOutcome,
+  TaskResultDetails,
+  TaskState,
 } from "./types"
 import {
-  cleanupProjects,
+  CommandError,
   displayCommand,
   displayDuration,
+  displayError,
+  displayNodeResults,
   ensureDir,
+  getCargoBuildCommand,
+  getCurrentTaskPhase,
   getDeploymentLogsMessage,
+  getLines,
   getSendMatrixResult,
+  getSendScheduledRunResult,
+  getTaskLogPath,
+  getTaskLogUrl,
+  getTaskSecrets,
+  millisecondsDelay,
   redactSecrets,
   removeDir,
   Retry,
+  UserFacingError,
 } from "./utils"
 
 const cpExec = promisify(cp.exec)
 
-type RegisterHandleOptions = { terminate: () => Promise<void> }
+// Parts of a task which might still be changed while it's waiting in the queue
+export type QueuedTaskChanges = Partial<
+  Pick<
+    Task,
+    | "execPath"
+    | "args"
+    | "env"
+    | "gitRef"
+    | "nodeRuns"
+    | "runtimeOnly"
+    | "commandDisplay"
+  >
+>
+
+type RegisterHandleOptions = {
+  terminate: () => Promise<void>
+  interrupt: () => Promise<void>
+  // Returns false if the task's execution has already started, in which case
+  // the changes are not applied
+  update: (changes: QueuedTaskChanges) => Promise<boolean>
+}
 type RegisterHandle = (options: RegisterHandleOptions) => void
-type CancelHandles<T> = Map<string, { cancel: () => Promise<void>; task: T }>
+type CancelHandle<T> = {
+  cancel: () => Promise<void>
+  interrupt: () => Promise<void>
+  update: (changes: QueuedTaskChanges) => Promise<boolean>
+  task: T
+}
+type CancelHandles<T> = Map<string, CancelHandle<T>>
 
 const handlesGetter = function <T>(handles: CancelHandles<T>) {
   return function (handleId: string) {
@@ -40,23 +120,135 @@ const handlesGetter = function <T>(handles: CancelHandles<T>) {
   }
 }
 
+// The handle's task is kept in sync with the changes which are applied to it
+const getCancelHandle = function <T extends Task>(
+  task: T,
+  { terminate, interrupt, update }: RegisterHandleOptions,
+) {
+  const handle: CancelHandle<T> = {
+    cancel: terminate,
+    interrupt,
+    update: async function (changes) {
+      const isUpdated = await update(changes)
+      if (isUpdated) {
+        handle.task = { ...handle.task, ...changes }
+      }
+      return isUpdated
+    },
+    task,
+  }
+  return handle
+}
+
 const pullRequestTaskHandles: CancelHandles<PullRequestTask> = new Map()
 export const getRegisterPullRequestHandle = function (task: PullRequestTask) {
-  return function ({ terminate }: RegisterHandleOptions) {
-    pullRequestTaskHandles.set(task.handleId, { cancel: terminate, task })
+  return function (options: RegisterHandleOptions) {
+    pullRequestTaskHandles.set(task.handleId, getCancelHandle(task, options))
   }
 }
 export const getPullRequestTaskHandle = handlesGetter(pullRequestTaskHandles)
 
+export const getPullRequestTaskHandles = function ({
+  owner,
+  repo,
+  pull_number,
+}: PullRequestParams) {
+  return [...pullRequestTaskHandles.values()].filter(function ({ task }) {
+    return (
+      task.owner === owner &&
+      task.repo === repo &&
+      task.pull_number === pull_number
+    )
+  })
+}
+
+// Short IDs only have to be unique among the tasks of the same pull request
+export const getPullRequestTaskShortId = function (
+  pullRequest: PullRequestParams,
+) {
+  const usedShortIds = new Set(
+    getPullRequestTaskHandles(pullRequest).map(function ({ task }) {
+      return task.shortId
+    }),
+  )
+  while (true) {
+    const shortId = crypto.randomBytes(2).toString("hex")
+    if (!usedShortIds.has(shortId)) {
+      return shortId
+    }
+  }
+}
+
 const apiTaskHandles: CancelHandles<ApiTask> = new Map()
 export const getRegisterApiTaskHandle = function (task: ApiTask) {
-  return function ({ terminate }: RegisterHandleOptions) {
-    apiTaskHandles.set(task.handleId, { cancel: terminate, task })
+  return function (options: RegisterHandleOptions) {
+    apiTaskHandles.set(task.handleId, getCancelHandle(task, options))
   }
 }
 export const getApiTaskHandle = handlesGetter(apiTaskHandles)
 
-const cleanupMotiveForCargoTargetDir = "Freeing disk space for CARGO_TARGET_DIR"
+// Receives the task's current data whenever it or any other task changes state,
+// since that might affect the task's position in the queue
+export type ProgressReporter = {
+  report: (task: Task) => void
+  // Waits for the ongoing report, if any, and stops reporting
+  stop: () => Promise<void>
+}
+
+const progressListeners: Set<() => void> = new Set()
+const notifyProgressListeners = function () {
+  for (const listener of progressListeners) {
+    listener()
+  }
+}
+
+// Tasks whose execution is over but which might still be recording their
+// history or delivering their results
+const finishingTasks: Set<Promise<void>> = new Set()
+
+let isAcceptingTasks = true
+export const isAcceptingNewTasks = function () {
+  return isAcceptingTasks
+}
+
+// Stops the execution of tasks for the application's shutdown. Running tasks
+// are given until the drain timeout to finish, after which they're interrupted
+// along with the ones which didn't get to start; interrupted tasks are kept in
+// the database so that they're requeued once the application starts again.
+// Resolves once the results of the finished tasks have been delivered.
+export const shutdownExecutor = async function (
+  { logger, workerPool }: Pick<State, "logger" | "workerPool">,
+  { drainTimeout }: { drainTimeout: number },
+) {
+  isAcceptingTasks = false
+
+  const deadline = Date.now() + drainTimeout
+  while (workerPool.getBusyWorkersCount() && Date.now() < deadline) {
+    await millisecondsDelay(1000)
+  }
+
+  const handles = [
+    ...pullRequestTaskHandles.values(),
+    ...apiTaskHandles.values(),
+  ]
+  logger.info(
+    handles.map(function ({ task: { handleId } }) {
+      return handleId
+    }),
+    "Interrupting the remaining tasks for shutdown",
+  )
+  await Promise.all(
+    handles.map(function ({ interrupt }) {
+      return interrupt()
+    }),
+  )
+
+  // The tasks which finished during the drain are already gone from the
+  // database, thus their results would be lost if they were not delivered
+  // before exiting
+  await Promise.all(finishingTasks)
+}
+
 export type ShellExecutor = (
   execPath: string,
   args: string[],
@@ -66,19 +258,55 @@ export type ShellExecutor = (
     testAllowedErrorMessage?: (stderr: string) => boolean
     secretsToHide?: string[]
     shouldTrackProgress?: boolean
+    // stdout is still included in the result, but not written to the task log
+    shouldHideStdoutFromLog?: boolean
   },
 ) => Promise<CommandOutput>
 const getShellExecutor = function ({
   logger,
-  projectsRoot,
   onChild,
-  isDeployed,
+  onNoSpaceLeft,
+  taskLog,
 }: {
   logger: Logger
-  projectsRoot: string
   onChild?: (child: cp.ChildProcess) => void
-  isDeployed: boolean
+  // Called when a command fails due to lack of disk space; the command is
+  // retried once if it returns true, i.e. if some space was freed
+  onNoSpaceLeft?: () => Promise<boolean>
+  // If specified, the output of all commands is written to this stream
+  taskLog?: fs.WriteStream
 }): ShellExecutor {
+  // The recovery commands are executed with the same environment as the
+  // failed command so that e.g. they target the same CARGO_TARGET_DIR
+  const attemptRecovery = async function (
+    recovery: FailureRecovery,
+    { cwd, env }: { cwd: string; env: NodeJS.ProcessEnv | undefined },
+  ) {
+    switch (recovery.kind) {
+      case "none": {
+        return false
+      }
+      case "freeDiskSpace": {
+        return onNoSpaceLeft === undefined ? false : await onNoSpaceLeft()
+      }
+      case "runCommand": {
+        logger.info(
+          `Running ${recovery.command} in "${cwd}" before retrying the command`,
+        )
+        await cpExec(recovery.command, { cwd, env })
+        return true
+      }
+      case "retryAfterDelay": {
+        await millisecondsDelay(recovery.delay)
+        return true
+      }
+      default: {
+        const exhaustivenessCheck: never = recovery
+        throw new Error(`Not exhaustive: ${exhaustivenessCheck}`)
+      }
+    }
+  }
+
   return function (
     execPath,
     args,
@@ -88,6 +316,7 @@ const getShellExecutor = function ({
       testAllowedErrorMessage,
       secretsToHide,
       shouldTrackProgress,
+      shouldHideStdoutFromLog,
     } = {},
   ) {
     return new Promise(function (resolve) {
@@ -104,14 +333,20 @@ const getShellExecutor = function ({
           const retry: Retry | undefined = retries.slice(-1)[0]
           if (retry === undefined) {
             logger.info(`Executing ${commandDisplayed}`)
+            taskLog?.write(`$ ${commandDisplayed}\n`)
           } else {
             logger.info(
               { previousRetries, retry },
               `Retrying ${commandDisplayed}`,
             )
+            taskLog?.write(
+              `$ ${commandDisplayed} # retrying due to: ${retry.motive}\n`,
+            )
           }
 
-          const child = cp.spawn(execPath, args, options)
+          // The child is spawned in its own process group so that its whole
+          // process tree can be killed at once (see killProcessGroup)
+          const child = cp.spawn(execPath, args, { ...options, detached: true })
           if (onChild) {
             onChild(child)
           }
@@ -126,7 +361,11 @@ const getShellExecutor = function ({
               const str = redactSecrets(data.toString(), secretsToHide)
               const strTrim = str.trim()
 
-              if (shouldTrackProgress && strTrim) {
+              if (taskLog !== undefined) {
+                if (!shouldHideStdoutFromLog || channel !== "stdout") {
+                  taskLog.write(str)
+                }
+              } else if (shouldTrackProgress && strTrim) {
                 logger.info(strTrim, channel)
               }
 
@@ -158,126 +397,29 @@ const getShellExecutor = function ({
                 const stderr = redactSecrets(stderrBuf.trim(), secretsToHide)
 
                 if (exitCode) {
-                  // https://github.com/rust-lang/rust/issues/51309
-                  // Could happen due to lacking system constraints (we saw it
-                  // happen due to out-of-memory)
-                  if (stderr.includes("SIGKILL")) {
-                    logger.fatal(
-                      "Compilation was terminated due to SIGKILL (might have something to do with system resource constraints)",
-                    )
-                  } else if (stderr.includes("No space left on device")) {
+                  const failure = classifyFailure(stderr)
+                  if (failure !== undefined) {
                     if (
-                      isDeployed &&
-                      process.env.CARGO_TARGET_DIR &&
                       retries.find(function ({ motive }) {
-                        return motive === cleanupMotiveForCargoTargetDir
-                      }) === undefined
+                        return motive === failure.motive
+                      }) === undefined &&
+                      (await attemptRecovery(failure.recovery, {
+                        cwd,
+                        env: options?.env,
+                      }))
                     ) {
-                      await removeDir(process.env.CARGO_TARGET_DIR)
-                      await ensureDir(process.env.CARGO_TARGET_DIR)
                       return resolve(
                         new Retry({
-                          context: "compilation error",
-                          motive: cleanupMotiveForCargoTargetDir,
+                          context: failure.category,
+                          motive: failure.motive,
                           stderr,
                         }),
                       )
                     }
-
-                    if (cwd.startsWith(projectsRoot)) {
-                      const cleanupMotiveForOtherDirectories = `Freeing disk space while excluding "${cwd}" from "${projectsRoot}" root`
-                      const cleanupMotiveForThisDirectory = `Freeing disk space while including only "${cwd}" from "${projectsRoot}" root`
-
-                      const hasAttemptedCleanupForOtherDirectories =
-                        retries.find(function ({ motive }) {
-                          return motive === cleanupMotiveForOtherDirectories
-                        }) === undefined
-                      const hasAttemptedCleanupForThisDirectory =
-                        retries.find(function ({ motive }) {
-                          return motive === cleanupMotiveForThisDirectory
-                        }) === undefined
-
-                      if (
-                        hasAttemptedCleanupForOtherDirectories &&
-                        hasAttemptedCleanupForThisDirectory
-                      ) {
-                        logger.fatal(
-                          { previousRetries, retry },
-                          "Already tried and failed to recover from lack of disk space",
-                        )
-                      } else {
-                        logger.info(
-                          `Running disk cleanup before retrying the command "${commandDisplayed}" in "${cwd}" due to lack of space in the device.`,
-                        )
-
-                        const executor = getShellExecutor({
-                          logger,
-                          projectsRoot,
-                          isDeployed,
-                        })
-
-                        if (!hasAttemptedCleanupForOtherDirectories) {
-                          const otherDirectoriesResults = await cleanupProjects(
-                            executor,
-                            projectsRoot,
-                            { excludeDirs: [cwd] },
-                          )
-                          // Relevant check because the current project might be
-                          // the only one we have available in this application.
-                          if (otherDirectoriesResults.length) {
-                            return resolve(
-                              new Retry({
-                                context: "compilation error",
-                                motive: cleanupMotiveForOtherDirectories,
-                                stderr,
-                              }),
-                            )
-                          }
-                        }
-
-                        const directoryResults = await cleanupProjects(
-                          executor,
-                          projectsRoot,
-                          { includeDirs: [cwd] },
-                        )
-                        if (directoryResults.length) {
-                          return resolve(
-                            new Retry({
-                              context: "compilation error",
-                              motive: cleanupMotiveForThisDirectory,
-                              stderr,
-                            }),
-                          )
-                        } else {
-                          logger.fatal(
-                            `Expected to have found a project for "${cwd}" during cleanup for disk space`,
-                          )
-                        }
-                      }
-                    } else {
-                      logger.fatal(
-                        `Unable to recover from lack of disk space because the directory "${cwd}" is not included in the projects root "${projectsRoot}"`,
-                      )
-                    }
-                  } else {
-                    const retryForCompilerIssue = stderr.match(
-                      /This is a known issue with the compiler. Run `([^`]+)`/,
+                    logger.error(
+                      { failure, previousRetries, retry },
+                      `Unable to recover from failure of ${commandDisplayed} due to ${failure.category}`,
                     )
-                    if (retryForCompilerIssue !== null) {
-                      const retryCargoCleanCmd =
-                        retryForCompilerIssue[1].replace(/_/g, "-")
-                      logger.info(
-                        `Running ${retryCargoCleanCmd} in "${cwd}" before retrying the command due to a compiler error.`,
-                      )
-                      await cpExec(retryCargoCleanCmd, { cwd })
-                      return resolve(
-                        new Retry({
-                          context: "compilation error",
-                          motive: retryCargoCleanCmd,
-                          stderr,
-                        }),
-                      )
-                    }
                   }
 
                   if (
@@ -286,7 +428,7 @@ const getShellExecutor = function ({
                     (testAllowedErrorMessage === undefined ||
                       !testAllowedErrorMessage(stderr))
                   ) {
-                    return resolve(new Error(stderr))
+                    return resolve(new CommandError(stderr, exitCode, failure))
                   }
                 }
 
@@ -322,20 +464,73 @@ const getShellExecutor = function ({
   }
 }
 
+// Sends SIGTERM to the process group of the child and, if any process of the
+// group survives the grace period, SIGKILL. Killing only the direct child is not
+// enough because e.g. `cargo run` spawns the actual binary as a separate
+// process.
+const killProcessGroup = async function (
+  child: cp.ChildProcess,
+  { gracePeriod, logger }: { gracePeriod: number; logger: Logger },
+) {
+  const { pid } = child
+  if (pid === undefined) {
+    return
+  }
+
+  const signalGroup = function (signal: NodeJS.Signals | 0) {
+    try {
+      process.kill(-pid, signal)
+      return true
+    } catch (error) {
+      // ESRCH means that no process from the group is alive anymore
+      if (error.code !== "ESRCH") {
+        logger.fatal(
+          error,
+          `Failed to send ${signal} to the process group of PID ${pid}`,
+        )
+      }
+      return false
+    }
+  }
+
+  if (!signalGroup("SIGTERM")) {
+    return
+  }
+  logger.info(`Sent SIGTERM to the process group of PID ${pid}`)
+
+  const deadline = Date.now() + gracePeriod
+  while (Date.now() < deadline) {
+    await millisecondsDelay(500)
+    if (!signalGroup(0)) {
+      return
+    }
+  }
+
+  if (signalGroup("SIGKILL")) {
+    logger.info(
+      `Sent SIGKILL to the process group of PID ${pid} since it was still alive after the grace period`,
+    )
+  }
+}
+
 const prepareBranch = async function* (
   {
     repoPath,
-    gitRef: { contributor, owner, repo, branch },
+    gitRef: { contributor, owner, repo, branch, sha, mergeBase },
   }: Pick<Task, "repoPath" | "gitRef">,
-
+  worktreePath: string,
   {
     run,
     getFetchEndpoint,
+    setState,
   }: {
     run: ShellExecutor
     getFetchEndpoint: () => Promise<{ token: string; url: string }>
+    setState: (state: TaskState) => Promise<void>
   },
 ) {
+  await setState("cloning")
+
   yield run("mkdir", ["-p", repoPath])
 
   const { token, url } = await getFetchEndpoint()
@@ -350,7 +545,8 @@ const prepareBranch = async function* (
     })
   }
 
-  // Clone the repository if it does not exist
+  // Clone the repository if it does not exist; the clone is only used as the
+  // shared object store from which each task's worktree is created
   yield repoCmd(
     "git",
     ["clone", "--quiet", `${url}/${owner}/${repo}`, repoPath],
@@ -361,96 +557,247 @@ const prepareBranch = async function* (
     },
   )
 
-  // Clean up garbage files before checkout
-  yield repoCmd("git", ["add", "."])
-  yield repoCmd("git", ["reset", "--hard"])
+  await setState("fetching")
 
-  // Check out to the detached head so that any branch can be deleted
-  let out = await repoCmd("git", ["rev-parse", "HEAD"], {
-    options: { cwd: repoPath },
-  })
+  // Fetch the branch by URL rather than through a named remote so that
+  // nothing related to the task lingers in the shared repository's config
+  yield repoCmd("git", [
+    "fetch",
+    "--quiet",
+    `${url}/${contributor}/${repo}.git`,
+    branch,
+  ])
+
+  let out = await repoCmd("git", ["rev-parse", "FETCH_HEAD"])
   if (out instanceof Error) {
     return out
   }
-  const detachedHead = out.trim()
-  yield repoCmd("git", ["checkout", "--quiet", detachedHead], {
-    testAllowedErrorMessage: function (err) {
-      // Why the hell is this not printed to stdout?
-      return err.startsWith("HEAD is now at")
-    },
-  })
+  const branchHead = out.trim()
+
+  let commit: string
+  if (sha === undefined || sha === branchHead) {
+    commit = branchHead
+  } else {
+    // The branch has moved since the task was created, so the commit has to
+    // be fetched separately in case it's not reachable from the branch's head
+    // anymore (e.g. after a force-push)
+    const hasCommit = await repoCmd("git", [
+      "cat-file",
+      "-e",
+      `${sha}^{commit}`,
+    ])
+    if (hasCommit instanceof Error) {
+      yield repoCmd("git", [
+        "fetch",
+        "--quiet",
+        `${url}/${contributor}/${repo}.git`,
+        sha,
+      ])
+    }
+    commit = sha
+  }
 
-  const prRemote = "pr"
-  yield repoCmd("git", ["remote", "remove", prRemote], {
-    testAllowedErrorMessage: function (err) {
-      return err.includes("No such remote:")
-    },
-  })
+  // Forget about worktrees whose directories no longer exist, otherwise Git
+  // might refuse to create a new worktree for a path it still knows about
+  yield repoCmd("git", ["worktree", "prune"])
 
   yield repoCmd("git", [
-    "remote",
+    "worktree",
     "add",
-    prRemote,
-    `${url}/${contributor}/${repo}.git`,
+    "--quiet",
+    "--detach",
+    worktreePath,
+    commit,
   ])
 
-  yield repoCmd("git", ["fetch", "--quiet", prRemote, branch])
-
-  yield repoCmd("git", ["branch", "-D", branch], {
-    testAllowedErrorMessage: function (err) {
-      return err.endsWith("not found.")
-    },
+  out = await repoCmd("git", ["rev-parse", "HEAD"], {
+    options: { cwd: worktreePath },
   })
+  if (out instanceof Error) {
+    return out
+  }
+  const checkedOutCommit = out.trim()
+  if (checkedOutCommit !== commit) {
+    return new Error(
+      `Expected commit ${commit} to be checked out for branch ${branch}, but got ${checkedOutCommit}`,
+    )
+  }
+
+  if (mergeBase === undefined) {
+    return { sha: commit }
+  }
 
   yield repoCmd("git", [
-    "checkout",
+    "fetch",
     "--quiet",
-    "--track",
-    `${prRemote}/${branch}`,
+    `${url}/${owner}/${repo}.git`,
+    mergeBase,
   ])
+
+  out = await repoCmd("git", ["rev-parse", "FETCH_HEAD"])
+  if (out instanceof Error) {
+    return out
+  }
+  const mergeBaseCommit = out.trim()
+
+  const worktreeCmd = function (args: string[]) {
+    return repoCmd("git", args, { options: { cwd: worktreePath } })
+  }
+
+  const mergeResult = await worktreeCmd([
+    // The merge commit only exists locally, so the identity doesn't matter
+    "-c",
+    "user.name=try-runtime-bot",
+    "-c",
+    "user.email=try-runtime-bot@localhost",
+    "merge",
+    "--quiet",
+    "--no-edit",
+    "--no-ff",
+    mergeBaseCommit,
+  ])
+  if (mergeResult instanceof Error) {
+    out = await worktreeCmd(["diff", "--name-only", "--diff-filter=U"])
+    const conflictingFiles = out instanceof Error ? [] : getLines(out)
+    if (conflictingFiles.length === 0) {
+      return mergeResult
+    }
+
+    yield worktreeCmd(["merge", "--abort"])
+
+    return new UserFacingError(
+      `Branch \`${branch}\` (commit ${commit}) could not be merged onto \`${mergeBase}\` (commit ${mergeBaseCommit}) due to conflicts in the following files:\n${conflictingFiles
+        .map(function (file) {
+          return `- ${file}`
+        })
+        .join("\n")}`,
+    )
+  }
+
+  return { sha: commit, mergeBase: { branch: mergeBase, sha: mergeBaseCommit } }
+}
+
+const removeWorktree = async function ({
+  logger,
+  repoPath,
+  worktreePath,
+}: {
+  logger: Logger
+  repoPath: string
+  worktreePath: string
+}) {
+  if (!fs.existsSync(worktreePath)) {
+    return
+  }
+
+  const run = getShellExecutor({ logger })
+  const result = await run(
+    "git",
+    ["worktree", "remove", "--force", worktreePath],
+    { options: { cwd: repoPath } },
+  )
+  if (result instanceof Error) {
+    logger.error(result, `Failed to remove the worktree ${worktreePath}`)
+    await removeDir(worktreePath)
+  }
+}
+
+// Worktrees are tied to the tasks which created them and all tasks are
+// requeued with new IDs when the application starts, therefore any worktree
+// found before the requeueing is an orphan of a previous run.
+export const sweepOrphanWorktrees = async function ({
+  logger,
+  repositoryCloneDirectory,
+  worktreesDirectory,
+}: Pick<State, "logger" | "repositoryCloneDirectory" | "worktreesDirectory">) {
+  const orphans = await fs.promises.readdir(worktreesDirectory)
+  if (orphans.length) {
+    logger.info(orphans, "Removing orphan worktrees")
+    await removeDir(worktreesDirectory)
+    await ensureDir(worktreesDirectory)
+  }
+
+  const run = getShellExecutor({ logger })
+  for (const entry of await fs.promises.readdir(repositoryCloneDirectory, {
+    withFileTypes: true,
+  })) {
+    const repoPath = path.join(repositoryCloneDirectory, entry.name)
+    if (
+      !entry.isDirectory() ||
+      repoPath === worktreesDirectory ||
+      !fs.existsSync(path.join(repoPath, ".git"))
+    ) {
+      continue
+    }
+
+    const result = await run("git", ["worktree", "prune"], {
+      options: { cwd: repoPath },
+    })
+    if (result instanceof Error) {
+      logger.error(result, `Failed to prune the worktrees of ${repoPath}`)
+    }
+  }
+}
+
+// Only the tail of the output is kept in the history since that's where the
+// error is usually at
+const historyOutputExcerptLength = 4096
+
+// The logs are kept for as long as their tasks are in the history, unless the
+// handle is in use by a task again
+const removeTaskLogs = async function (
+  { logger, taskLogsDirectory }: Pick<State, "logger" | "taskLogsDirectory">,
+  handleIds: string[],
+) {
+  for (const handleId of handleIds) {
+    if (pullRequestTaskHandles.has(handleId) || apiTaskHandles.has(handleId)) {
+      continue
+    }
+    try {
+      await fs.promises.rm(getTaskLogPath(taskLogsDirectory, handleId), {
+        force: true,
+      })
+    } catch (error) {
+      logger.error(error, `Failed to remove the log of ${handleId}`)
+    }
+  }
 }
 
 const getQueueMessage = async function (
-  state: Parameters<typeof getSortedTasks>[0],
+  state: Parameters<typeof getQueueEntries>[0],
   commandDisplay: string,
   version: string,
 ) {
-  const items = await getSortedTasks(state, { match: { version } })
+  const entries = await getQueueEntries(state, { version })
 
-  if (items.length) {
+  if (entries.length) {
     return `
 Queued ${commandDisplay}
 
-There are other items ahead of it in the queue: ${items.reduce(function (
-      acc,
-      value,
-      i,
-    ) {
-      return `
-
-${i + 1}:
+There are other items ahead of it in the queue:
 
-\`\`\`
-${JSON.stringify(value, null, 2)}
-\`\`\`
-
-`
-    },
-    "")}`
+${renderQueueMarkdown(entries)}`
   }
 
   return `\nExecuting:\n\n\`${commandDisplay}\``
 }
 
-const mutex = new Mutex()
 export const queue = async function ({
-  taskData,
+  taskData: queuedTaskData,
   onResult,
   state,
   registerHandle,
+  progressReporter,
 }: {
   taskData: Task
-  onResult: (result: CommandOutput) => Promise<unknown>
+  // Receives the task as it was executed since it might have been changed
+  // while it was queued
+  onResult: (
+    result: CommandOutput,
+    details: TaskResultDetails,
+    outcome: FinishedTaskOutcome,
+    task: Task,
+  ) => Promise<unknown>
   state: Pick<
     State,
     | "taskDb"
@@ -461,12 +808,39 @@ export const queue = async function ({
     | "parseTaskId"
     | "appName"
     | "repositoryCloneDirectory"
+    | "worktreesDirectory"
+    | "workerPool"
+    | "historyDb"
+    | "historyRetention"
+    | "taskLogsDirectory"
+    | "publicUrl"
+    | "taskTimeouts"
+    | "taskKillGracePeriod"
+    | "diskSpaceWatermark"
+    | "binaryCache"
+    | "prebuiltNodeBinary"
   >
   registerHandle: RegisterHandle
+  progressReporter?: ProgressReporter
 }) {
   let child: cp.ChildProcess | undefined = undefined
   let isAlive = true
-  const { execPath, args, commandDisplay, repoPath } = taskData
+  let isInterrupted = false
+  let testedRevision: TaskResultDetails = { sha: undefined }
+  let startDate: Date | undefined = undefined
+  let commandResult: CommandOutput | undefined = undefined
+  let taskLog: fs.WriteStream | undefined = undefined
+  let timeoutHandle: NodeJS.Timeout | undefined = undefined
+  let timedOutAfter: number | undefined = undefined
+  const diskEvictions: DiskEviction[] = []
+  let nodeResults: NodeResult[] | undefined = undefined
+  let cachedBinary: CachedBinary | undefined = undefined
+  let usedCachedBuild = false
+  let runtimeOnlyDetails: RuntimeOnlyDetails | undefined = undefined
+  let outputSummary: TryRuntimeSummary | undefined = undefined
+  // Replaced if the task is updated before its execution starts
+  let taskData = queuedTaskData
+  const { repoPath } = taskData
   const {
     deployment,
     logger,
@@ -474,30 +848,92 @@ export const queue = async function ({
     getFetchEndpoint,
     getTaskId,
     appName,
-    repositoryCloneDirectory,
+    worktreesDirectory,
+    workerPool,
+    taskLogsDirectory,
+    publicUrl,
+    taskTimeouts,
+    taskKillGracePeriod,
+    diskSpaceWatermark,
+    binaryCache,
+    prebuiltNodeBinary,
   } = state
   const { db } = taskDb
 
-  let suffixMessage = getDeploymentLogsMessage(deployment)
+  const getOutputSummary = function (output: CommandOutput) {
+    const summary = summarizeTryRuntimeOutput(
+      output instanceof Error ? output.message : output,
+      { succeeded: !(output instanceof Error) },
+    )
+    return isTryRuntimeSummaryEmpty(summary) ? undefined : summary
+  }
+
+  const reportDiskEvictions = function (evictions: DiskEviction[]) {
+    if (evictions.length === 0) {
+      return
+    }
+    diskEvictions.push(...evictions)
+    taskLog?.write(
+      `# Evicted for freeing disk space: ${displayDiskEvictions(evictions)}\n`,
+    )
+  }
+
+  const logUrl = getTaskLogUrl(publicUrl, taskData.handleId)
+  const buildArgs = getCargoBuildCommand(taskData.execPath, taskData.args)?.args
+  let suffixMessage =
+    logUrl === undefined
+      ? getDeploymentLogsMessage(deployment)
+      : `The logs for this command will be available at ${logUrl}`
   if (!fs.existsSync(repoPath)) {
     suffixMessage +=
       "\n**Note:** project will be cloned for the first time, so all dependencies will be compiled from scratch; this might take a long time"
   } else if (
-    process.env.CARGO_TARGET_DIR
-      ? !fs.existsSync(process.env.CARGO_TARGET_DIR)
-      : !fs.existsSync(path.join(repoPath, "target"))
+    taskData.gitRef.sha !== undefined &&
+    taskData.gitRef.mergeBase === undefined &&
+    buildArgs !== undefined &&
+    (await hasCachedBuildForCommit(state, {
+      repo: taskData.gitRef.repo,
+      sha: taskData.gitRef.sha,
+      buildArgs,
+      env: taskData.env,
+    }))
   ) {
+    suffixMessage += `\n**Note:** a cached build of commit ${taskData.gitRef.sha} is available, so compilation will likely be skipped`
+  } else if (!fs.existsSync(getCargoTargetDir(repoPath))) {
     suffixMessage +=
       '\n**Note:** "target" directory does not exist, so all dependencies will be compiled from scratch; this might take a long time'
   }
 
   const taskId = getTaskId()
-  const message = await getQueueMessage(state, commandDisplay, taskData.version)
+  const timeout = taskTimeouts[taskData.tag]
+  const worktreePath = path.join(
+    worktreesDirectory,
+    taskId.replace(/[^\w-]/g, "_"),
+  )
+  const message = await getQueueMessage(
+    state,
+    taskData.commandDisplay,
+    taskData.version,
+  )
   const cancelledMessage = "Command was cancelled"
 
-  const terminate = async function () {
-    isAlive = false
+  // Returns the result for when the execution should not go further, be it
+  // because it was cancelled or because it timed out
+  const getInterruptionResult = function () {
+    if (!isAlive) {
+      return cancelledMessage
+    }
+    if (timedOutAfter !== undefined) {
+      return new UserFacingError(
+        `Command timed out after ${displayDuration(
+          new Date(0),
+          new Date(timedOutAfter),
+        )}`,
+      )
+    }
+  }
 
+  const unregisterHandle = function () {
     switch (taskData.tag) {
       case "PullRequestTask": {
         pullRequestTaskHandles.delete(taskData.handleId)
@@ -512,133 +948,589 @@ export const queue = async function ({
         throw new Error(`Not exhaustive: ${exhaustivenessCheck}`)
       }
     }
+  }
+
+  const releaseResources = async function () {
+    if (timeoutHandle !== undefined) {
+      clearTimeout(timeoutHandle)
+      timeoutHandle = undefined
+    }
+
+    const runningChild = child
+    child = undefined
+    const runningTaskLog = taskLog
+    taskLog = undefined
+
+    if (runningChild !== undefined) {
+      await killProcessGroup(runningChild, {
+        gracePeriod: taskKillGracePeriod,
+        logger,
+      })
+    }
+    runningTaskLog?.end()
+  }
+
+  const stopProgressReports = async function () {
+    progressListeners.delete(reportProgress)
+    await progressReporter?.stop()
+  }
+
+  const terminate = async function () {
+    isAlive = false
+
+    unregisterHandle()
+
+    await stopProgressReports()
 
     await db.del(taskId)
+    notifyProgressListeners()
 
     logger.info(
       await getSortedTasks(state, { match: { version: taskData.version } }),
       `Queue after termination of task ${taskId}`,
     )
 
-    if (child === undefined) {
-      return
-    }
+    // The resources are released in the background so that cancelling a task
+    // doesn't have to wait for the grace period of the processes; the worktree
+    // is removed by the worker once the command stops
+    void releaseResources()
+  }
 
+  // Unlike terminate, the task is kept in the database so that it will be
+  // requeued when the application starts again
+  const interrupt = async function () {
+    await setState("interrupted")
+    isInterrupted = true
+    isAlive = false
+
+    unregisterHandle()
+
+    await stopProgressReports()
+
+    await releaseResources()
+  }
+
+  const recordHistory = async function (
+    outcome: TaskOutcome,
+    result: CommandOutput,
+  ) {
     try {
-      child.kill()
-    } catch (error) {
-      logger.fatal(
-        error,
-        `Failed to kill child with PID ${child.pid} (${commandDisplay})`,
+      const endDate = new Date()
+      const secrets = getTaskSecrets(taskData)
+      const output = redactSecrets(
+        result instanceof Error ? displayError(result) : result,
+        secrets,
       )
-      return
+      const prunedHandleIds = await recordTaskHistory(state, {
+        taskId,
+        task: {
+          ...persistedTaskData,
+          // The history is available through the API
+          secretsToHide: undefined,
+          phases: [
+            ...persistedTaskData.phases,
+            { state: outcome, date: endDate.toISOString() },
+          ],
+          env: Object.fromEntries(
+            Object.entries(persistedTaskData.env).map(function ([name, value]) {
+              return [name, redactSecrets(value, secrets)]
+            }),
+          ),
+        },
+        outcome,
+        startDate: startDate?.toISOString() ?? null,
+        endDate: endDate.toISOString(),
+        sha: testedRevision.sha ?? null,
+        exitCode:
+          commandResult === undefined
+            ? null
+            : commandResult instanceof CommandError
+            ? commandResult.exitCode
+            : commandResult instanceof Error
+            ? null
+            : 0,
+        outputExcerpt: output.slice(-historyOutputExcerptLength),
+      })
+      await removeTaskLogs(state, prunedHandleIds)
+    } catch (error) {
+      logger.fatal(error, `Failed to record the history of task ${taskId}`)
     }
-
-    logger.info(`Killed child with PID ${child.pid} (${commandDisplay})`)
-    child = undefined
   }
 
-  const afterExecution = async function (result: CommandOutput) {
+  const finishExecution = async function (result: CommandOutput) {
+    if (isInterrupted) {
+      return
+    }
+
     const wasAlive = isAlive
 
     await terminate()
 
+    const outcome: FinishedTaskOutcome =
+      result instanceof Error || commandResult instanceof Error
+        ? "failed"
+        : "succeeded"
+
+    await recordHistory(wasAlive ? outcome : "cancelled", result)
+
     if (wasAlive) {
-      void onResult(result)
+      try {
+        await onResult(
+          result,
+          {
+            ...testedRevision,
+            logUrl,
+            nodeResults,
+            usedCachedBuild: usedCachedBuild || undefined,
+            runtimeOnly: runtimeOnlyDetails,
+            summary: outputSummary,
+            diskEvictions:
+              diskEvictions.length === 0
+                ? undefined
+                : displayDiskEvictions(diskEvictions),
+          },
+          outcome,
+          taskData,
+        )
+      } catch (error) {
+        logger.fatal(error, `Failed to deliver the result of task ${taskId}`)
+      }
     }
   }
 
-  await db.put(taskId, JSON.stringify(taskData))
+  const afterExecution = function (result: CommandOutput) {
+    const finishingTask = finishExecution(result)
+    finishingTasks.add(finishingTask)
+    return finishingTask.finally(function () {
+      finishingTasks.delete(finishingTask)
+    })
+  }
 
-  mutex
-    .runExclusive(async function () {
-      try {
-        await db.put(
-          taskId,
-          JSON.stringify({
-            ...taskData,
-            timesRequeuedSnapshotBeforeExecution: taskData.timesRequeued,
-            timesExecuted: taskData.timesExecuted + 1,
-          }),
-        )
+  let persistedTaskData: Task = taskData
+  const updateTaskData = async function (
+    changes: Partial<Pick<Task, Exclude<keyof Task, "tag">>>,
+  ) {
+    persistedTaskData = { ...persistedTaskData, ...changes }
+    await db.put(taskId, JSON.stringify(persistedTaskData))
+  }
 
-        if (isAlive) {
-          logger.info(
-            { handleId: taskData.handleId, taskId, commandDisplay },
-            `Starting task of ${commandDisplay}`,
-          )
-          logger.info(
-            await getSortedTasks(state, {
-              match: { version: taskData.version },
-            }),
-            "Current task queue",
-          )
-        } else {
-          logger.info(`taskId ${taskId} was cancelled before it could start`)
-          return cancelledMessage
-        }
+  const setState = async function (state: TaskState) {
+    // The interrupted state should be the last one persisted since it's what
+    // is checked for requeueing the task later
+    if (isInterrupted) {
+      return
+    }
+    logger.info({ taskId, state }, `Task ${taskId} is now ${state}`)
+    await updateTaskData({
+      phases: [
+        ...persistedTaskData.phases,
+        { state, date: new Date().toISOString() },
+      ],
+    })
+    notifyProgressListeners()
+  }
 
-        const run = getShellExecutor({
-          logger,
-          projectsRoot: repositoryCloneDirectory,
-          isDeployed: deployment !== undefined,
-          onChild: function (newChild) {
-            child = newChild
-          },
-        })
+  const update = async function (changes: QueuedTaskChanges) {
+    // The worker is assigned as soon as the execution starts
+    if (!isAlive || persistedTaskData.workerId !== undefined) {
+      return false
+    }
+    taskData = { ...taskData, ...changes }
+    await updateTaskData(changes)
+    notifyProgressListeners()
+    return true
+  }
+
+  const reportProgress = function () {
+    progressReporter?.report(persistedTaskData)
+  }
+  if (progressReporter !== undefined) {
+    progressListeners.add(reportProgress)
+  }
+
+  await setState("queued")
 
-        const prepare = prepareBranch(taskData, {
-          run,
-          getFetchEndpoint: function () {
-            return getFetchEndpoint(
-              "installationId" in taskData ? taskData.installationId : null,
+  const startDelay =
+    taskData.startAfter === undefined
+      ? 0
+      : new Date(taskData.startAfter).getTime() - Date.now()
+  if (startDelay > 0) {
+    logger.info(
+      `Task ${taskId} will be queued for execution after ${taskData.startAfter}`,
+    )
+  }
+
+  millisecondsDelay(Math.max(startDelay, 0))
+    .then(function () {
+      return workerPool.run(repoPath, async function (workerId) {
+        try {
+          if (!isAcceptingTasks) {
+            await interrupt()
+            return cancelledMessage
+          }
+
+          await updateTaskData({ workerId })
+
+          const { execPath, args, commandDisplay } = taskData
+
+          if (isAlive) {
+            startDate = new Date()
+            if (timeout !== null) {
+              timeoutHandle = setTimeout(function () {
+                timeoutHandle = undefined
+                timedOutAfter = timeout
+                logger.info(
+                  `Task ${taskId} timed out after ${timeout} milliseconds`,
+                )
+                const runningChild = child
+                if (runningChild !== undefined) {
+                  void killProcessGroup(runningChild, {
+                    gracePeriod: taskKillGracePeriod,
+                    logger,
+                  })
+                }
+              }, timeout)
+            }
+            taskLog = fs.createWriteStream(
+              getTaskLogPath(taskLogsDirectory, taskData.handleId),
             )
-          },
-        })
-        while (isAlive) {
-          const next = await prepare.next()
-          if (next.done) {
-            break
+            // Failing to write the log (e.g. due to lack of disk space)
+            // should not bring down the application
+            taskLog.on("error", function (error) {
+              logger.error(error, `Failed to write the log of task ${taskId}`)
+              taskLog = undefined
+            })
+            logger.info(
+              { handleId: taskData.handleId, taskId, commandDisplay, workerId },
+              `Starting task of ${commandDisplay} on worker ${workerId}`,
+            )
+            logger.info(
+              await getSortedTasks(state, {
+                match: { version: taskData.version },
+              }),
+              "Current task queue",
+            )
+          } else {
+            logger.info(`taskId ${taskId} was cancelled before it could start`)
+            return cancelledMessage
           }
 
-          child = undefined
+          const run = getShellExecutor({
+            logger,
+            onNoSpaceLeft: async function () {
+              const evictions = await freeDiskSpace(state, {
+                minimumFreeSpace: diskSpaceWatermark ?? defaultRetryFreeSpace,
+                currentRepository: repoPath,
+              })
+              reportDiskEvictions(evictions)
+              return evictions.length > 0
+            },
+            onChild: function (newChild) {
+              child = newChild
+            },
+            taskLog,
+          })
 
-          if (typeof next.value !== "string") {
-            return next.value
+          await acquireRepository(repoPath)
+          if (diskSpaceWatermark !== null) {
+            reportDiskEvictions(
+              await freeDiskSpace(state, {
+                minimumFreeSpace: diskSpaceWatermark,
+              }),
+            )
           }
-        }
-        if (!isAlive) {
-          return cancelledMessage
-        }
 
-        const startTime = new Date()
-        const result = await run(execPath, args, {
-          options: { env: { ...process.env, ...taskData.env }, cwd: repoPath },
-          shouldTrackProgress: true,
-        })
-        const endTime = new Date()
+          const prepare = prepareBranch(taskData, worktreePath, {
+            run,
+            setState,
+            getFetchEndpoint: function () {
+              return getFetchEndpoint(
+                "installationId" in taskData ? taskData.installationId : null,
+              )
+            },
+          })
+          while (getInterruptionResult() === undefined) {
+            const next = await prepare.next()
+            if (next.done) {
+              if (next.value instanceof Error) {
+                return next.value
+              }
+              testedRevision = next.value
+              // Pin the commit so that the same one is tested if the task has
+              // to be requeued
+              await updateTaskData({
+                gitRef: { ...taskData.gitRef, sha: testedRevision.sha },
+              })
+              break
+            }
+
+            child = undefined
+
+            if (typeof next.value !== "string") {
+              return next.value
+            }
+          }
+          let interruptionResult = getInterruptionResult()
+          if (interruptionResult !== undefined) {
+            return interruptionResult
+          }
+
+          const commandOptions = {
+            options: {
+              env: {
+                ...process.env,
+                CARGO_TARGET_DIR: getCargoTargetDir(repoPath),
+                ...taskData.env,
+              },
+              cwd: worktreePath,
+            },
+            shouldTrackProgress: true,
+            secretsToHide: getTaskSecrets(taskData),
+          }
+
+          const startTime = new Date()
+
+          // Compilation is done separately when possible so that it can be
+          // tracked as its own phase; the command itself will not recompile
+          // anything afterwards
+          const buildCommand = getCargoBuildCommand(execPath, args)
+          if (
+            taskData.runtimeOnly !== undefined &&
+            (buildCommand === undefined || prebuiltNodeBinary === null)
+          ) {
+            return new UserFacingError(
+              buildCommand === undefined
+                ? "The runtime-only mode is only supported for `cargo run` commands"
+                : "The runtime-only mode is not available since no prebuilt node binary is configured",
+            )
+          }
+
+          const binaryCacheKey =
+            buildCommand === undefined ||
+            binaryCache === null ||
+            // The node is not compiled in runtime-only mode
+            taskData.runtimeOnly !== undefined
+              ? undefined
+              : await getBinaryCacheKey(run, {
+                  repo: taskData.gitRef.repo,
+                  testedRevision,
+                  buildCommand,
+                  env: taskData.env,
+                  options: commandOptions.options,
+                })
+          if (binaryCacheKey !== undefined) {
+            cachedBinary = await getCachedBinary(state, binaryCacheKey)
+            if (cachedBinary !== undefined) {
+              usedCachedBuild = true
+              taskLog?.write(
+                `# Using the cached binary ${cachedBinary.binaryPath}\n`,
+              )
+            }
+          }
+
+          let buildResult: CommandOutput | undefined = undefined
+          if (buildCommand !== undefined && cachedBinary === undefined) {
+            await setState("building")
+            buildResult = await run(
+              buildCommand.execPath,
+              taskData.runtimeOnly !== undefined
+                ? [
+                    ...buildCommand.args,
+                    "--package",
+                    taskData.runtimeOnly.runtimePackage,
+                  ]
+                : binaryCacheKey === undefined
+                ? buildCommand.args
+                : [
+                    ...buildCommand.args,
+                    // For finding out which binary was built
+                    "--message-format=json-render-diagnostics",
+                  ],
+              {
+                ...commandOptions,
+                shouldHideStdoutFromLog: binaryCacheKey !== undefined,
+              },
+            )
+            child = undefined
+            interruptionResult = getInterruptionResult()
+            if (interruptionResult !== undefined) {
+              return interruptionResult
+            }
+
+            if (
+              binaryCacheKey !== undefined &&
+              typeof buildResult === "string"
+            ) {
+              const executable = getBuiltExecutable(buildResult)
+              if (executable !== undefined) {
+                cachedBinary = await storeCachedBinary(
+                  state,
+                  binaryCacheKey,
+                  executable,
+                )
+              }
+            }
+          }
+
+          if (
+            taskData.runtimeOnly !== undefined &&
+            buildCommand !== undefined &&
+            prebuiltNodeBinary !== null &&
+            !(buildResult instanceof Error)
+          ) {
+            const wasmFile = findRuntimeWasm(getCargoTargetDir(repoPath), {
+              ...taskData.runtimeOnly,
+              profile: getCargoProfile(buildCommand.args),
+            })
+            if (wasmFile === undefined) {
+              return new UserFacingError(
+                `Unable to find the WASM of the runtime package ${taskData.runtimeOnly.runtimePackage} after compiling it`,
+              )
+            }
+            const nodeVersion = await run(
+              prebuiltNodeBinary,
+              ["--version"],
+              commandOptions,
+            )
+            if (nodeVersion instanceof Error) {
+              return nodeVersion
+            }
+            runtimeOnlyDetails = {
+              nodeBinary: prebuiltNodeBinary,
+              nodeVersion,
+              wasmFile,
+              wasmSha256: await getFileSha256(wasmFile),
+            }
+            taskLog?.write(
+              `# Using the runtime ${wasmFile} (SHA-256: ${runtimeOnlyDetails.wasmSha256})\n`,
+            )
+          }
+
+          // The binary is executed directly when it's available rather than
+          // going through `cargo run`
+          const getRunCommand = function (
+            runArgs: string[],
+          ): { execPath: string; args: string[] } | Error {
+            const runBuildCommand = getCargoBuildCommand(execPath, runArgs)
+            if (runtimeOnlyDetails !== undefined) {
+              const runtimeOnlyArgs =
+                runBuildCommand === undefined
+                  ? undefined
+                  : getRuntimeOnlyProgramArgs(
+                      runBuildCommand.programArgs,
+                      runtimeOnlyDetails.wasmFile,
+                    )
+              if (runtimeOnlyArgs === undefined) {
+                return new UserFacingError(
+                  "The runtime-only mode requires the try-runtime sub-command to be specified",
+                )
+              }
+              return {
+                execPath: runtimeOnlyDetails.nodeBinary,
+                args: runtimeOnlyArgs,
+              }
+            }
+            return cachedBinary === undefined || runBuildCommand === undefined
+              ? { execPath, args: runArgs }
+              : {
+                  execPath: cachedBinary.binaryPath,
+                  args: runBuildCommand.programArgs,
+                }
+          }
+
+          let result: CommandOutput
+          if (buildResult instanceof Error) {
+            result = buildResult
+          } else if (taskData.nodeRuns === undefined) {
+            await setState("running")
+            const runCommand = getRunCommand(args)
+            result =
+              runCommand instanceof Error
+                ? runCommand
+                : await run(
+                    runCommand.execPath,
+                    runCommand.args,
+                    commandOptions,
+                  )
+            if (!(runCommand instanceof Error)) {
+              outputSummary = getOutputSummary(result)
+            }
+          } else {
+            await setState("running")
+            const runNodeResults: NodeResult[] = []
+            let failedResult: Error | undefined = undefined
+            for (const nodeRun of taskData.nodeRuns) {
+              taskLog?.write(`# Executing for the node ${nodeRun.node}\n`)
+              const runCommand = getRunCommand(nodeRun.args)
+              const nodeResult =
+                runCommand instanceof Error
+                  ? runCommand
+                  : await run(
+                      runCommand.execPath,
+                      runCommand.args,
+                      commandOptions,
+                    )
+              child = undefined
+              interruptionResult = getInterruptionResult()
+              if (interruptionResult !== undefined) {
+                return interruptionResult
+              }
+              if (nodeResult instanceof Error) {
+                failedResult ??= nodeResult
+              }
+              runNodeResults.push({
+                node: nodeRun.node,
+                succeeded: !(nodeResult instanceof Error),
+                output:
+                  nodeResult instanceof Error
+                    ? displayError(nodeResult)
+                    : nodeResult,
+                summary:
+                  runCommand instanceof Error
+                    ? undefined
+                    : getOutputSummary(nodeResult),
+              })
+            }
+            nodeResults = runNodeResults
+            result = failedResult ?? displayNodeResults(runNodeResults)
+          }
+          commandResult = result
+          const endTime = new Date()
 
-        return isAlive
-          ? `${appName} took ${displayDuration(
+          return (
+            getInterruptionResult() ??
+            `${appName} took ${displayDuration(
               startTime,
               endTime,
             )} (from ${startTime.toISOString()} to ${endTime.toISOString()} server time) for ${commandDisplay}
-            ${result}`
-          : cancelledMessage
-      } catch (error) {
-        return error
-      }
+            ${
+              nodeResults === undefined
+                ? result
+                : displayNodeResults(nodeResults)
+            }`
+          )
+        } catch (error) {
+          return error
+        } finally {
+          cachedBinary?.release()
+          // The worktree is removed before the repository is released since
+          // the next task for the repository will prune and add worktrees
+          // in the same Git directory
+          await removeWorktree({ logger, repoPath, worktreePath })
+          await releaseRepository(repoPath)
+        }
+      })
     })
     .then(afterExecution)
     .catch(afterExecution)
 
-  registerHandle({ terminate })
+  registerHandle({ terminate, interrupt, update })
 
   return `${message}\n${suffixMessage}`
 }
 
 export const requeueUnterminated = async function (state: State) {
-  const { taskDb, version, logger, bot, matrix } = state
+  const { taskDb, version, logger, bot, matrix, requeuePolicies } = state
   const { db } = taskDb
 
   // Items which are not from this version still remaining in the database are
@@ -653,14 +1545,46 @@ export const requeueUnterminated = async function (state: State) {
   } of unterminatedItems) {
     await db.del(id)
 
+    // Entries persisted by versions prior to the introduction of phases don't
+    // have them
+    taskData.phases ??= []
+    const lastState = getCurrentTaskPhase(taskData)?.state
+
+    // Check if the task got to execute, but it failed to finish due to a crash,
+    // in which case the attempt counts against the requeue policy; in
+    // comparison, it might have been requeued and not had a chance to execute
+    // due to other crash-inducing command being in front of it, thus it's not
+    // reasonable to count this attempt against it. Interrupted tasks were
+    // stopped on purpose for the application's shutdown, thus they're not at
+    // fault either.
+    const wasExecuting =
+      lastState !== undefined &&
+      lastState !== "queued" &&
+      lastState !== "interrupted"
+    // Entries persisted by versions prior to the introduction of the requeue
+    // policies don't have it
+    const timesAttempted =
+      (taskData.timesAttempted ?? 0) + (wasExecuting ? 1 : 0)
+    const { maxAttempts, backoff } = requeuePolicies[taskData.tag]
+    const requeueDelay =
+      wasExecuting && backoff ? backoff * 2 ** (timesAttempted - 1) : 0
+
     const prepareRequeue = function <T>(taskData: T) {
       logger.info(taskData, "Prepare requeue")
-      return { ...taskData, timesRequeued: timesRequeued + 1 }
+      return {
+        ...taskData,
+        timesRequeued: timesRequeued + 1,
+        timesAttempted,
+        startAfter: requeueDelay
+          ? new Date(Date.now() + requeueDelay).toISOString()
+          : undefined,
+        workerId: undefined,
+      }
     }
 
     type RequeueComponent = {
       requeue: () => Promise<unknown>
-      announceCancel: (msg: string) => Promise<unknown>
+      announce: (msg: string) => Promise<unknown>
     }
     const getRequeueResult = async function (): Promise<
       RequeueComponent | Error
@@ -670,40 +1594,77 @@ export const requeueUnterminated = async function (state: State) {
           case "PullRequestTask": {
             const { owner, repo, pull_number, commentId, requester } = taskData
 
-            const octokit = await (
-              bot.auth as (installationId?: number) => Promise<Octokit>
-            )(taskData.installationId)
-
-            const announceCancel = function (message: string) {
-              return updateComment(octokit, {
-                owner,
-                repo,
-                pull_number,
-                comment_id: commentId,
-                body: `@${requester} ${message}`,
-              })
+            const octokit = getOctokit(
+              await (bot.auth as (installationId?: number) => Promise<Octokit>)(
+                taskData.installationId,
+              ),
+            )
+
+            const nextTaskData = prepareRequeue({
+              ...taskData,
+              // Entries persisted by versions prior to the introduction of
+              // multiple tasks per pull request don't have it
+              shortId: taskData.shortId ?? getPullRequestTaskShortId(taskData),
+            })
+
+            // The announcement is rendered below the header of the task's
+            // comment so that the comment keeps being updated with the status
+            // of the requeued task
+            let announcement = ""
+            const statusReporter = getPullRequestStatusReporter({
+              octokit,
+              state,
+              taskData: nextTaskData,
+              getHeader: function (task) {
+                return `${getPullRequestTaskHeader({
+                  ...task,
+                  shortId: nextTaskData.shortId,
+                })}${announcement}`
+              },
+            })
+            let isRequeued = false
+            const announce = async function (message: string) {
+              announcement = `\n\n@${requester} ${message}`
+              if (isRequeued) {
+                statusReporter.refresh()
+              } else {
+                await updateComment(octokit, {
+                  owner,
+                  repo,
+                  pull_number,
+                  comment_id: commentId,
+                  body: `${getPullRequestTaskHeader(
+                    nextTaskData,
+                  )}${announcement}`,
+                })
+              }
             }
 
-            const nextTaskData = prepareRequeue(taskData)
+            const postResult = getPostPullRequestResult({
+              taskData: nextTaskData,
+              octokit,
+              state,
+            })
             const requeue = async function () {
               await queue({
                 taskData: nextTaskData,
-                onResult: getPostPullRequestResult({
-                  taskData: nextTaskData,
-                  octokit,
-                  state,
-                }),
+                onResult: async function (result, details, outcome, task) {
+                  const resultUrl = await postResult(result, details, task)
+                  await statusReporter.finish(outcome, resultUrl)
+                },
                 state,
                 registerHandle: getRegisterPullRequestHandle(nextTaskData),
+                progressReporter: statusReporter,
               })
+              isRequeued = true
             }
 
-            return { requeue, announceCancel }
+            return { requeue, announce }
           }
           case "ApiTask": {
             if (matrix === null) {
               return {
-                announceCancel: async function () {
+                announce: async function () {
                   logger.fatal(
                     taskData,
                     "ApiTask cannot be requeued because Matrix client is missing",
@@ -719,12 +1680,19 @@ export const requeueUnterminated = async function (state: State) {
             }
 
             const nextTaskData = prepareRequeue(taskData)
+            const { scheduleId } = nextTaskData
             return {
-              announceCancel: sendMatrixMessage,
+              announce: sendMatrixMessage,
               requeue: function () {
                 return queue({
                   taskData: nextTaskData,
-                  onResult: getSendMatrixResult(matrix, logger, taskData),
+                  onResult:
+                    scheduleId === undefined
+                      ? getSendMatrixResult(matrix, state, taskData)
+                      : getSendScheduledRunResult(matrix, state, {
+                          ...nextTaskData,
+                          scheduleId,
+                        }),
                   state,
                   registerHandle: getRegisterApiTaskHandle(nextTaskData),
                 })
@@ -747,18 +1715,12 @@ export const requeueUnterminated = async function (state: State) {
       continue
     }
 
-    const { announceCancel, requeue } = requeueResult
-    if (
-      timesRequeued &&
-      // Check if the task was requeued and got to execute, but it failed for
-      // some reason, in which case it will not be retried further; in
-      // comparison, it might have been requeued and not had a chance to execute
-      // due to other crash-inducing command being in front of it, thus it's not
-      // reasonable to avoid rescheduling this command if it's not his fault
-      timesRequeued === taskData.timesRequeuedSnapshotBeforeExecution
-    ) {
-      await announceCancel(
-        `Command was rescheduled and failed to finish (check for taskId ${id} in the logs); execution will not automatically be restarted further.`,
+    const { announce, requeue } = requeueResult
+    if (timesAttempted >= maxAttempts) {
+      await announce(
+        wasExecuting
+          ? `Command failed to finish after ${timesAttempted} attempt(s), the last one while ${lastState} (check for taskId ${id} in the logs); execution will not automatically be restarted further.`
+          : `Command was not rescheduled after the bot restarted because it reached the limit of ${maxAttempts} attempt(s); execution will not automatically be restarted further.`,
       )
     } else {
       try {
@@ -768,10 +1730,25 @@ export const requeueUnterminated = async function (state: State) {
         if (errorMessage.endsWith(".") === false) {
           errorMessage = `${errorMessage}.`
         }
-        await announceCancel(
+        await announce(
           `Caught exception while trying to reschedule the command; it will not be rescheduled further. Error message: ${errorMessage}.`,
         )
+        continue
       }
+
+      const attemptDisplay = `attempt ${timesAttempted + 1} of ${maxAttempts}`
+      await announce(
+        wasExecuting
+          ? `Command failed to finish while ${lastState} (check for taskId ${id} in the logs) and was rescheduled (${attemptDisplay})${
+              requeueDelay
+                ? `; it will start again in ${displayDuration(
+                    new Date(0),
+                    new Date(requeueDelay),
+                  )}`
+                : ""
+            }.`
+          : `Command was rescheduled after the bot restarted (${attemptDisplay}).`,
+      )
     }
   }
 }
@@ -0,0 +1,130 @@
+export type FailureCategory =
+  | "out of memory"
+  | "disk space"
+  | "compiler ICE"
+  | "network"
+  | "node unreachable"
+
+export type FailureRecovery =
+  | { kind: "none" }
+  | { kind: "freeDiskSpace" }
+  // The command is executed through a shell in the working directory of the
+  // failed command
+  | { kind: "runCommand"; command: string }
+  // In milliseconds
+  | { kind: "retryAfterDelay"; delay: number }
+
+export type FailureClassifier = {
+  category: FailureCategory
+  pattern: RegExp
+  getRecovery: (match: RegExpMatchArray) => FailureRecovery
+  explanation: string
+}
+
+export type FailureClassification = {
+  category: FailureCategory
+  recovery: FailureRecovery
+  explanation: string
+  // Identifies the recovery so that it's attempted at most once per command
+  motive: string
+}
+
+const noRecovery = function (): FailureRecovery {
+  return { kind: "none" }
+}
+
+// The classifiers are matched against the stderr of failed commands in order,
+// thus more specific patterns should come before the generic ones
+export const failureClassifiers: FailureClassifier[] = [
+  {
+    // https://github.com/rust-lang/rust/issues/51309
+    // Could happen due to lacking system constraints (we saw it happen due to
+    // out-of-memory)
+    category: "out of memory",
+    pattern:
+      /SIGKILL|memory allocation of \d+ bytes failed|Cannot allocate memory/,
+    getRecovery: noRecovery,
+    explanation:
+      "The command was killed, likely because the server ran out of memory.",
+  },
+  {
+    category: "disk space",
+    pattern: /No space left on device/,
+    getRecovery: function () {
+      return { kind: "freeDiskSpace" }
+    },
+    explanation: "The server ran out of disk space.",
+  },
+  {
+    category: "compiler ICE",
+    pattern: /This is a known issue with the compiler. Run `([^`]+)`/,
+    getRecovery: function (match) {
+      return { kind: "runCommand", command: match[1].replace(/_/g, "-") }
+    },
+    explanation: "The compiler crashed due to a known issue.",
+  },
+  {
+    category: "compiler ICE",
+    pattern: /internal compiler error/,
+    getRecovery: noRecovery,
+    explanation: "The compiler crashed with an internal compiler error.",
+  },
+  {
+    // Errors from the RPC client of try-runtime
+    category: "node unreachable",
+    pattern:
+      /Networking or low-level protocol error|Error when opening the TCP socket|WebSocket connection error/,
+    getRecovery: noRecovery,
+    explanation:
+      "The node could not be reached; check if the node's address is correct and if it's online.",
+  },
+  {
+    category: "network",
+    pattern:
+      /Could not resolve host|Couldn't resolve host|Connection reset by peer|Connection timed out|spurious network error|failed to download|early EOF/i,
+    getRecovery: function () {
+      return { kind: "retryAfterDelay", delay: 10000 }
+    },
+    explanation: "The command failed due to a network error.",
+  },
+]
+
+export const displayFailureRecovery = function (recovery: FailureRecovery) {
+  switch (recovery.kind) {
+    case "none": {
+      return "none"
+    }
+    case "freeDiskSpace": {
+      return "Freeing disk space"
+    }
+    case "runCommand": {
+      return recovery.command
+    }
+    case "retryAfterDelay": {
+      return `Waiting ${recovery.delay} milliseconds`
+    }
+    default: {
+      const exhaustivenessCheck: never = recovery
+      throw new Error(`Not exhaustive: ${exhaustivenessCheck}`)
+    }
+  }
+}
+
+export const classifyFailure = function (
+  stderr: string,
+  classifiers: FailureClassifier[] = failureClassifiers,
+): FailureClassification | undefined {
+  for (const { category, pattern, getRecovery, explanation } of classifiers) {
+    const match = stderr.match(pattern)
+    if (match === null) {
+      continue
+    }
+    const recovery = getRecovery(match)
+    return {
+      category,
+      recovery,
+      explanation,
+      motive: displayFailureRecovery(recovery),
+    }
+  }
+}
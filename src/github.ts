@@ -1,18 +1,30 @@
 import { RequestError } from "@octokit/request-error"
 import { EndpointInterface, Endpoints, RequestInterface } from "@octokit/types"
+import { formatDistanceStrict, parseISO } from "date-fns"
 
 import { Logger } from "./logger"
+import { renderTryRuntimeSummaryMarkdown } from "./output"
+import { getWaitingPosition } from "./queue"
+import { displayRuntimeOnlyDetails } from "./runtime"
 import {
   CommandOutput,
+  FinishedTaskOutcome,
+  NodeResult,
   Octokit,
   PullRequestParams,
   PullRequestTask,
   State,
+  Task,
+  TaskPhase,
+  TaskResultDetails,
 } from "./types"
 import {
   displayError,
+  displayTestedRevision,
   getDeploymentLogsMessage,
   millisecondsDelay,
+  paginateOutput,
+  UserFacingError,
 } from "./utils"
 
 // The actual limit should be 65532 but we're a bit conservative here
@@ -137,29 +149,90 @@ export const isOrganizationMember = async function ({
   }
 }
 
+// The comment's data is null when comments are not actually posted
+const getCommentUrl = function (data: { html_url: string } | null) {
+  return data?.html_url
+}
+
+const truncationIndicator = "[truncated]..."
+
+const shortenText = function (text: string, maxLength: number) {
+  return text.length <= maxLength
+    ? text
+    : `${text.slice(
+        0,
+        maxLength - truncationIndicator.length,
+      )}${truncationIndicator}`
+}
+
+// The headers of result comments are made of user input (e.g. the command) and
+// of the summary, which have no length limit; they're shortened so that enough
+// of the comment is left for the output
+const maxResultHeaderLength = Math.floor(githubCommentCharacterLimit / 4)
+
+// Pages of output are never smaller than this, even if the headers are long
+const minOutputPageSize = 1024
+
 export const getPostPullRequestResult = function ({
   taskData,
   octokit,
-  state: { logger, deployment },
+  state: { logger, deployment, maxResultMessages },
 }: {
   taskData: PullRequestTask
   octokit: Octokit
-  state: Pick<State, "deployment" | "logger">
+  state: Pick<State, "deployment" | "logger" | "maxResultMessages">
 }) {
-  return async function (result: CommandOutput) {
+  // Returns the URL of the result's comment. The command is taken from the
+  // executed task since the task's comment might have been edited while it
+  // was queued.
+  return async function (
+    result: CommandOutput,
+    details: TaskResultDetails,
+    { commandDisplay }: Pick<Task, "commandDisplay"> = taskData,
+  ): Promise<string | undefined> {
     try {
-      logger.info({ result, taskData }, "Posting pull request result")
+      logger.info(
+        { result, taskData, commandDisplay, details },
+        "Posting pull request result",
+      )
 
-      const { owner, repo, requester, pull_number, commandDisplay } = taskData
+      const { owner, repo, requester, pull_number, shortId } = taskData
 
-      const before = `
-@${requester} Results are ready for:\n\n  \`${commandDisplay}\`
+      const logsMessage =
+        details.logUrl === undefined
+          ? getDeploymentLogsMessage(deployment)
+          : `The full log is available at ${details.logUrl}`
 
-<details>
-<summary>Output</summary>
+      if (result instanceof UserFacingError) {
+        const { data } = await createComment(octokit, {
+          owner,
+          repo,
+          issue_number: pull_number,
+          body: `@${requester} Failed to run \`${commandDisplay}\`: ${
+            result.message
+          }${logsMessage ? `\n\n${logsMessage}` : ""}`,
+        })
+        return getCommentUrl(data)
+      }
 
-\`\`\`
-`
+      const testedRevision = displayTestedRevision(details)
+      const runtimeOnlyDetails =
+        details.runtimeOnly === undefined
+          ? undefined
+          : displayRuntimeOnlyDetails(details.runtimeOnly)
+      const header = `
+@${requester} Results are ready for \`${shortId}\`:\n\n  \`${commandDisplay}\`
+${testedRevision === undefined ? "" : `\nTested commit: ${testedRevision}\n`}${
+        details.logUrl === undefined ? "" : `\nFull log: ${details.logUrl}\n`
+      }${details.usedCachedBuild ? "\nUsed a cached build\n" : ""}${
+        runtimeOnlyDetails === undefined
+          ? ""
+          : `\nNode binary: ${runtimeOnlyDetails.node}\n\nRuntime: ${runtimeOnlyDetails.wasm}\n`
+      }${
+        details.diskEvictions === undefined
+          ? ""
+          : `\nEvicted for freeing disk space: ${details.diskEvictions}\n`
+      }`
 
       const after = `
 \`\`\`
@@ -168,35 +241,123 @@ export const getPostPullRequestResult = function ({
 
 `
 
-      let resultDisplay =
-        typeof result === "string" ? result : displayError(result)
-      let truncateMessageWarning: string
-      if (
-        before.length + resultDisplay.length + after.length >
-        githubCommentCharacterLimit
+      // The output is split across multiple comments if it doesn't fit into a
+      // single one; the space taken by the first comment's header is reserved
+      // in all pages for simplicity
+      const getPartDisplay = function (part: number, partsCount: number) {
+        return `\n(part ${part} of ${partsCount})`
+      }
+      const getOmittedLinesWarning = function (omittedLines: number) {
+        return `\n---\nThe command's output was too big to be fully displayed, thus its first ${omittedLines} lines were omitted. ${logsMessage}.`
+      }
+      // Returns the URL of the first comment
+      const postOutput = async function (
+        output: string,
+        {
+          header,
+          continuationHeader,
+          outputTitle,
+          maxPages,
+        }: {
+          header: string
+          continuationHeader: string
+          outputTitle: string
+          maxPages: number
+        },
       ) {
-        truncateMessageWarning = `\n---\nThe command's output was too big to be fully displayed. ${getDeploymentLogsMessage(
-          deployment,
-        )}.`
-        const truncationIndicator = "[truncated]..."
-        resultDisplay = `${resultDisplay.slice(
-          0,
-          githubCommentCharacterLimit -
-            (before.length +
-              truncationIndicator.length +
-              after.length +
-              truncateMessageWarning.length),
-        )}${truncationIndicator}`
-      } else {
-        truncateMessageWarning = ""
+        const outputBefore = `
+<details>
+<summary>${outputTitle}</summary>
+
+\`\`\`
+`
+        const before = `${shortenText(
+          header,
+          maxResultHeaderLength,
+        )}${outputBefore}`
+        const continuationBefore = `${shortenText(
+          continuationHeader,
+          maxResultHeaderLength,
+        )}${outputBefore}`
+
+        const { pages, omittedLines } = paginateOutput(output, {
+          pageSize: Math.max(
+            minOutputPageSize,
+            githubCommentCharacterLimit -
+              (Math.max(before.length, continuationBefore.length) +
+                after.length +
+                getPartDisplay(maxPages, maxPages).length +
+                getOmittedLinesWarning(Number.MAX_SAFE_INTEGER).length),
+          ),
+          maxPages,
+        })
+
+        let firstCommentUrl: string | undefined = undefined
+        for (const [i, page] of pages.entries()) {
+          const partDisplay =
+            pages.length === 1 ? "" : getPartDisplay(i + 1, pages.length)
+          const { data } = await createComment(octokit, {
+            owner,
+            repo,
+            issue_number: pull_number,
+            body:
+              i === 0
+                ? `${before}${page}${after}${partDisplay}${
+                    omittedLines ? getOmittedLinesWarning(omittedLines) : ""
+                  }`
+                : `${continuationBefore}${page}${after}${partDisplay}`,
+          })
+          firstCommentUrl ??= getCommentUrl(data)
+        }
+        return firstCommentUrl
       }
 
-      await createComment(octokit, {
-        owner,
-        repo,
-        issue_number: pull_number,
-        body: `${before}${resultDisplay}${after}${truncateMessageWarning}`,
-      })
+      // The results of each node are posted in their own comments after a
+      // comment with the status and summary of every node; the comments which
+      // are allowed for the output are shared equally between the nodes
+      if (details.nodeResults !== undefined) {
+        const { nodeResults } = details
+        const { data } = await createComment(octokit, {
+          owner,
+          repo,
+          issue_number: pull_number,
+          body: shortenText(
+            `${shortenText(
+              header,
+              maxResultHeaderLength,
+            )}${getNodeResultsSummary(nodeResults)}`,
+            githubCommentCharacterLimit,
+          ),
+        })
+        const maxPagesPerNode = Math.max(
+          1,
+          Math.floor(maxResultMessages / nodeResults.length),
+        )
+        for (const { node, succeeded, output } of nodeResults) {
+          await postOutput(output, {
+            header: `@${requester} Output of node \`${node}\` for \`${shortId}\` (\`${commandDisplay}\`):\n`,
+            continuationHeader: `@${requester} Output of node \`${node}\` for \`${shortId}\`:\n`,
+            outputTitle: `${node}: ${succeeded ? "succeeded" : "failed"}`,
+            maxPages: maxPagesPerNode,
+          })
+        }
+        return getCommentUrl(data)
+      }
+
+      const resultUrl = await postOutput(
+        typeof result === "string" ? result : displayError(result),
+        {
+          header: `${header}${
+            details.summary === undefined
+              ? ""
+              : `\n${renderTryRuntimeSummaryMarkdown(details.summary)}`
+          }`,
+          continuationHeader: `@${requester} Results for \`${shortId}\` (\`${commandDisplay}\`):\n`,
+          outputTitle: "Output",
+          maxPages: maxResultMessages,
+        },
+      )
+      return resultUrl
     } catch (error) {
       logger.fatal(
         { error, result, taskData },
@@ -206,10 +367,190 @@ export const getPostPullRequestResult = function ({
   }
 }
 
+const displayTaskPhases = function (
+  phases: TaskPhase[],
+  { finishDate }: { finishDate?: Date },
+) {
+  return `| Phase | Started at | Duration |
+| --- | --- | --- |
+${phases
+  .map(function ({ state, date }, i) {
+    const nextPhase = phases[i + 1] as TaskPhase | undefined
+    const endDate =
+      nextPhase === undefined ? finishDate : parseISO(nextPhase.date)
+    // The duration of the ongoing phase is not displayed so that the comment
+    // doesn't have to be updated until something changes
+    return `| ${state} | ${date} | ${endDate === undefined ? "ongoing" : formatDistanceStrict(parseISO(date), endDate)} |`
+  })
+  .join("\n")}
+`
+}
+
+// The task's commit might change while it's queued if the pull request's
+// branch is retargeted, hence why the header is rendered from the task. Tasks
+// persisted before commits were pinned don't have it.
+export const getPullRequestTaskHeader = function ({
+  shortId,
+  gitRef,
+  runtimeOnly,
+}: Pick<PullRequestTask, "shortId" | "gitRef" | "runtimeOnly">) {
+  return `Preparing try-runtime command \`${shortId}\` for branch: \`${
+    gitRef.branch
+  }\`${gitRef.sha === undefined ? "" : ` (commit ${gitRef.sha})`}${
+    gitRef.mergeBase === undefined ? "" : ` merged onto \`${gitRef.mergeBase}\``
+  }${
+    runtimeOnly === undefined
+      ? ""
+      : ` with only the runtime \`${runtimeOnly.runtimePackage}\` being compiled`
+  }. Comment will be updated.\n\n`.trim()
+}
+
+// Keeps the comment of a pull request task updated as the task progresses
+// through the queue. Reports which arrive while the comment is being updated
+// are coalesced into a single update and the comment is only updated if its
+// body changes; the requests are throttled by the hook of getOctokit. The
+// header is rendered from the task's current data since the task might be
+// changed while it's queued.
+export const getPullRequestStatusReporter = function ({
+  octokit,
+  state,
+  taskData,
+  getHeader,
+}: {
+  octokit: ExtendedOctokit
+  state: Pick<State, "logger" | "taskDb" | "parseTaskId">
+  taskData: PullRequestTask
+  getHeader: (task: Task) => string
+}) {
+  const { logger } = state
+  const { owner, repo, pull_number, commentId } = taskData
+
+  let lastTask: Task | undefined = undefined
+  let pendingTask: Task | undefined = undefined
+  let lastBody: string | undefined = undefined
+  let isStopped = false
+  let ongoingUpdate: Promise<void> | undefined = undefined
+
+  const setCommentBody = async function (body: string) {
+    if (body === lastBody) {
+      return
+    }
+    lastBody = body
+    await updateComment(octokit, {
+      owner,
+      repo,
+      issue_number: pull_number,
+      comment_id: commentId,
+      body,
+    })
+  }
+
+  const renderProgress = async function (task: Task) {
+    const waitingPosition = await getWaitingPosition(state, task)
+    return `${getHeader(task)}
+
+**Status** (updated as the command progresses)
+
+${displayTaskPhases(task.phases, {})}${
+      waitingPosition === undefined
+        ? ""
+        : `\nPosition in the queue: ${waitingPosition.position} of ${waitingPosition.waitingCount}\n`
+    }`
+  }
+
+  const processPendingReports = async function () {
+    try {
+      while (pendingTask !== undefined && !isStopped) {
+        const task = pendingTask
+        pendingTask = undefined
+        await setCommentBody(await renderProgress(task))
+      }
+    } catch (error) {
+      logger.error(
+        error,
+        "Failed to update the status of the pull request task",
+      )
+    } finally {
+      ongoingUpdate = undefined
+    }
+  }
+
+  const report = function (task: Task) {
+    lastTask = task
+    if (isStopped) {
+      return
+    }
+    pendingTask = task
+    ongoingUpdate ??= processPendingReports()
+  }
+
+  const stop = async function () {
+    isStopped = true
+    await ongoingUpdate
+  }
+
+  return {
+    report,
+    stop,
+    // Renders the comment again, e.g. after something which the header
+    // depends on changed
+    refresh: function () {
+      if (lastTask !== undefined) {
+        report(lastTask)
+      }
+    },
+    finish: async function (
+      outcome: FinishedTaskOutcome,
+      resultUrl: string | undefined,
+    ) {
+      await stop()
+      try {
+        await setCommentBody(`${getHeader(lastTask ?? taskData)}
+
+**Status**: ${outcome}${resultUrl === undefined ? "" : ` (see ${resultUrl})`}
+
+${displayTaskPhases(lastTask?.phases ?? [], { finishDate: new Date() })}`)
+      } catch (error) {
+        logger.error(
+          error,
+          "Failed to update the status of the pull request task",
+        )
+      }
+    },
+  }
+}
+
+// The status and summary of each node; the summaries share the length which
+// is allowed for the results' header
+const getNodeResultsSummary = function (nodeResults: NodeResult[]) {
+  const maxNodeSummaryLength = Math.floor(
+    maxResultHeaderLength / nodeResults.length,
+  )
+  return `
+| Node | Status |
+| --- | --- |
+${nodeResults
+  .map(function ({ node, succeeded }) {
+    return `| ${node} | ${succeeded ? "succeeded" : "failed"} |`
+  })
+  .join("\n")}
+${nodeResults
+  .map(function ({ node, summary }) {
+    return summary === undefined
+      ? ""
+      : shortenText(
+          `\n#### ${node}\n\n${renderTryRuntimeSummaryMarkdown(summary)}`,
+          maxNodeSummaryLength,
+        )
+  })
+  .join("")}`
+}
+
 export const getPullRequestHandleId = function ({
   owner,
   repo,
   pull_number,
-}: PullRequestParams) {
-  return `owner: ${owner}, repo: ${repo}, pull: ${pull_number}`
+  shortId,
+}: PullRequestParams & Pick<PullRequestTask, "shortId">) {
+  return `owner: ${owner}, repo: ${repo}, pull: ${pull_number}, task: ${shortId}`
 }
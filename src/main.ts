@@ -1,5 +1,6 @@
 import { createAppAuth } from "@octokit/auth-app"
 import assert from "assert"
+import crypto from "crypto"
 import { isValid, parseISO } from "date-fns"
 import http from "http"
 import { MatrixClient, SimpleFsStorageProvider } from "matrix-bot-sdk"
@@ -8,11 +9,24 @@ import { Logger as ProbotLogger, Probot, Server } from "probot"
 import { getLog } from "probot/lib/helpers/get-log"
 import stoppable from "stoppable"
 
-import { AccessDB, getDb, getSortedTasks, TaskDB } from "src/db"
+import {
+  AccessDB,
+  getDb,
+  getSortedTasks,
+  HistoryDB,
+  ScheduleDB,
+  TaskDB,
+} from "src/db"
 
 import { setupApi } from "./api"
-import { requeueUnterminated } from "./executor"
+import {
+  requeueUnterminated,
+  shutdownExecutor,
+  sweepOrphanWorktrees,
+} from "./executor"
 import { Logger, LoggingLevels } from "./logger"
+import { getWorkerPool } from "./pool"
+import { startScheduler } from "./schedule"
 import { State } from "./types"
 import { ensureDir, initDatabaseDir, removeDir } from "./utils"
 import { getWebhooksHandlers, setupEvent } from "./webhook"
@@ -20,8 +34,18 @@ import { getWebhooksHandlers, setupEvent } from "./webhook"
 const setupProbot = async function (state: State) {
   const { bot, logger } = state
 
-  const { onIssueCommentCreated } = getWebhooksHandlers(state)
+  const {
+    onIssueCommentCreated,
+    onIssueCommentEdited,
+    onIssueCommentDeleted,
+    onPullRequestClosed,
+    onPullRequestSynchronize,
+  } = getWebhooksHandlers(state)
   setupEvent(bot, "issue_comment.created", onIssueCommentCreated, logger)
+  setupEvent(bot, "issue_comment.edited", onIssueCommentEdited, logger)
+  setupEvent(bot, "issue_comment.deleted", onIssueCommentDeleted, logger)
+  setupEvent(bot, "pull_request.closed", onPullRequestClosed, logger)
+  setupEvent(bot, "pull_request.synchronize", onPullRequestSynchronize, logger)
 }
 
 const taskIdSeparator = "-task-"
@@ -51,9 +75,14 @@ const serverSetup = async function (
 
   const version = new Date().toISOString()
 
+  // The IDs are used as the handles of API tasks, which grant access to their
+  // logs and cancellation without further authentication, thus they should not
+  // be guessable
   let uniqueIdCounter = 0
   const getUniqueId = function () {
-    return `${version}__${++uniqueIdCounter}`
+    return `${version}__${++uniqueIdCounter}__${crypto
+      .randomBytes(16)
+      .toString("hex")}`
   }
   const getTaskId = function () {
     return `${new Date().toISOString()}${taskIdSeparator}${getUniqueId()}`
@@ -113,6 +142,11 @@ const serverSetup = async function (
     await removeDir(repositoryCloneDirectoryPath)
   }
   const repositoryCloneDirectory = await ensureDir(repositoryCloneDirectoryPath)
+  const worktreesDirectory = await ensureDir(
+    path.join(repositoryCloneDirectory, ".worktrees"),
+  )
+
+  const taskLogsDirectory = await ensureDir(path.join(dataPath, "task_logs"))
 
   const taskDbPath = await initDatabaseDir(path.join(dataPath, "db"))
   const taskDb = new TaskDB(getDb(taskDbPath))
@@ -120,6 +154,20 @@ const serverSetup = async function (
   const accessDbPath = await initDatabaseDir(path.join(dataPath, "access_db"))
   const accessDb = new AccessDB(getDb(accessDbPath))
 
+  const historyDbPath = await initDatabaseDir(path.join(dataPath, "history_db"))
+  const historyDb = new HistoryDB(getDb(historyDbPath))
+  const historyRetention = {
+    maxEntries: parseInt(process.env.HISTORY_MAX_ENTRIES ?? "10000"),
+    maxAgeDays: parseInt(process.env.HISTORY_MAX_AGE_DAYS ?? "90"),
+  }
+  assert(historyRetention.maxEntries > 0)
+  assert(historyRetention.maxAgeDays > 0)
+
+  const scheduleDbPath = await initDatabaseDir(
+    path.join(dataPath, "schedule_db"),
+  )
+  const scheduleDb = new ScheduleDB(getDb(scheduleDbPath))
+
   if (process.env.CLEAR_DB_ON_START === "true") {
     logger.info("Clearing the database before starting")
     for (const { id } of await getSortedTasks(
@@ -192,6 +240,104 @@ const serverSetup = async function (
   }
   logger.info(nodesAddresses, "Registered nodes addresses")
 
+  const taskConcurrency = process.env.TASK_CONCURRENCY
+    ? parseInt(process.env.TASK_CONCURRENCY)
+    : 1
+  assert(taskConcurrency > 0, "$TASK_CONCURRENCY should be a positive number")
+  const workerPool = getWorkerPool({ concurrency: taskConcurrency })
+  logger.info(`Tasks will be executed by ${taskConcurrency} worker(s)`)
+
+  const parseMinutesToMilliseconds = function (envVar: string) {
+    const value = process.env[envVar]
+    if (!value) {
+      return null
+    }
+    const minutes = parseFloat(value)
+    assert(minutes > 0, `$${envVar} should be a positive number`)
+    return minutes * 60 * 1000
+  }
+  const taskTimeouts = {
+    PullRequestTask: parseMinutesToMilliseconds(
+      "PULL_REQUEST_TASK_TIMEOUT_MINUTES",
+    ),
+    ApiTask: parseMinutesToMilliseconds("API_TASK_TIMEOUT_MINUTES"),
+  }
+  const taskKillGracePeriod =
+    parseInt(process.env.TASK_KILL_GRACE_PERIOD_SECONDS ?? "30") * 1000
+  assert(taskKillGracePeriod >= 0)
+
+  const getRequeuePolicy = function (envVarPrefix: string) {
+    const maxAttempts = parseInt(
+      process.env[`${envVarPrefix}_MAX_ATTEMPTS`] ?? "2",
+    )
+    assert(
+      maxAttempts >= 0,
+      `$${envVarPrefix}_MAX_ATTEMPTS should be a non-negative number`,
+    )
+    const backoff =
+      parseFloat(
+        process.env[`${envVarPrefix}_REQUEUE_BACKOFF_SECONDS`] ?? "0",
+      ) * 1000
+    assert(
+      backoff >= 0,
+      `$${envVarPrefix}_REQUEUE_BACKOFF_SECONDS should be a non-negative number`,
+    )
+    return { maxAttempts, backoff }
+  }
+  const requeuePolicies = {
+    PullRequestTask: getRequeuePolicy("PULL_REQUEST_TASK"),
+    ApiTask: getRequeuePolicy("API_TASK"),
+  }
+
+  const diskSpaceWatermark = process.env.MIN_FREE_DISK_SPACE_GB
+    ? parseFloat(process.env.MIN_FREE_DISK_SPACE_GB) * 1024 ** 3
+    : null
+  assert(
+    diskSpaceWatermark === null || diskSpaceWatermark > 0,
+    "$MIN_FREE_DISK_SPACE_GB should be a positive number",
+  )
+
+  const binaryCacheMaxSize = process.env.BINARY_CACHE_MAX_SIZE_GB
+    ? parseFloat(process.env.BINARY_CACHE_MAX_SIZE_GB) * 1024 ** 3
+    : null
+  assert(
+    binaryCacheMaxSize === null || binaryCacheMaxSize > 0,
+    "$BINARY_CACHE_MAX_SIZE_GB should be a positive number",
+  )
+  let binaryCache: State["binaryCache"] = null
+  if (binaryCacheMaxSize !== null) {
+    const binaryCacheDirectory = path.join(dataPath, "binary_cache")
+    await ensureDir(binaryCacheDirectory)
+    binaryCache = {
+      directory: binaryCacheDirectory,
+      maxSize: binaryCacheMaxSize,
+    }
+  }
+
+  const maxResultMessages = parseInt(process.env.MAX_RESULT_MESSAGES ?? "10")
+  assert(
+    maxResultMessages > 0,
+    "$MAX_RESULT_MESSAGES should be a positive number",
+  )
+
+  const pushPolicies: State["pushPolicies"] = {}
+  for (const entry of (process.env.PUSH_POLICIES ?? "").split(",")) {
+    if (!entry) {
+      continue
+    }
+    const [repository, policy] = entry.split("=")
+    assert(
+      repository.includes("/") &&
+        (policy === "cancel" || policy === "retarget"),
+      `Invalid entry "${entry}" in $PUSH_POLICIES; it should be in the format owner/repo=cancel or owner/repo=retarget`,
+    )
+    pushPolicies[repository] = policy
+  }
+
+  const shutdownDrainTimeout =
+    parseInt(process.env.SHUTDOWN_DRAIN_TIMEOUT_SECONDS ?? "0") * 1000
+  assert(shutdownDrainTimeout >= 0)
+
   if (deployment !== undefined) {
     if (matrix === null) {
       throw new Error("Matrix configuration is expected for deployments")
@@ -206,12 +352,18 @@ const serverSetup = async function (
     bot,
     taskDb,
     accessDb,
+    historyDb,
+    scheduleDb,
+    historyRetention,
     getFetchEndpoint,
     log: bot.log,
     version,
     allowedOrganizations,
     logger,
     repositoryCloneDirectory,
+    worktreesDirectory,
+    taskLogsDirectory,
+    publicUrl: process.env.PUBLIC_URL?.replace(/\/+$/, "") || null,
     deployment,
     matrix,
     masterToken: process.env.MASTER_TOKEN || null,
@@ -219,10 +371,41 @@ const serverSetup = async function (
     getTaskId,
     parseTaskId,
     nodesAddresses,
+    workerPool,
+    taskTimeouts,
+    taskKillGracePeriod,
+    requeuePolicies,
+    diskSpaceWatermark,
+    binaryCache,
+    prebuiltNodeBinary: process.env.PREBUILT_NODE_BINARY || null,
+    maxResultMessages,
+    pushPolicies,
   }
 
+  await sweepOrphanWorktrees(state)
+
   await requeueUnterminated(state)
 
+  startScheduler(state)
+
+  let isShuttingDown = false
+  const onShutdownSignal = function (signal: NodeJS.Signals) {
+    if (isShuttingDown) {
+      return
+    }
+    isShuttingDown = true
+    logger.info(`Received ${signal}; shutting down`)
+    void shutdownExecutor(state, { drainTimeout: shutdownDrainTimeout })
+      .catch(function (error) {
+        logger.fatal(error, "Failed to shut down the executor")
+      })
+      .finally(function () {
+        process.exit(0)
+      })
+  }
+  process.on("SIGTERM", onShutdownSignal)
+  process.on("SIGINT", onShutdownSignal)
+
   void setupProbot(state)
 
   void setupApi(server, state)
@@ -0,0 +1,159 @@
+// Extracts the highlights of try-runtime's logs so that the outcome can be
+// seen at a glance without going through the whole output
+
+export type TryRuntimeCheck = {
+  name: "pre-upgrade" | "post-upgrade"
+  passed: boolean
+}
+
+export type TryRuntimeSummary = {
+  // Whether the command itself succeeded
+  succeeded: boolean
+  checks: TryRuntimeCheck[]
+  consumedWeight?: string
+  storageChanges: string[]
+  // Panics or errors found in the output
+  problems: string[]
+}
+
+// How many lines of each kind are kept in the summary
+const maxSummaryLines = 5
+
+const logPrefixExpression =
+  /^\s*\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?Z?\s+(?:TRACE|DEBUG|INFO|WARN|ERROR)?\s*/
+
+const stripLogPrefix = function (line: string) {
+  return line.replace(logPrefixExpression, "").trim()
+}
+
+const checkExpressions: Record<TryRuntimeCheck["name"], RegExp> = {
+  "pre-upgrade": /pre[-_ ]upgrade/i,
+  "post-upgrade": /post[-_ ]upgrade/i,
+}
+const checkFailureExpression = /fail|error|panic|mismatch/i
+const checkSuccessExpression =
+  /pass|success|succeeded|\bok\b|✅|executed without errors/i
+
+const consumedWeightExpression =
+  /Consumed weight\s*=\s*(.+?)(?:,\s*total weight|$)/i
+const storageChangeExpression =
+  /storage.*\b(?:changes?|changed|modified|removed|migrated)\b|\b(?:changes?|changed|modified|removed|migrated)\b.*\bstorage\b|\d+ keys?\b.*\b(?:migrated|removed|written|translated)\b/i
+const problemExpression = /panicked at|^Error:|\bERROR\b|thread '.+' panicked/
+
+export const summarizeTryRuntimeOutput = function (
+  output: string,
+  { succeeded }: { succeeded: boolean },
+): TryRuntimeSummary {
+  const checks: Map<TryRuntimeCheck["name"], boolean> = new Map()
+  let consumedWeight: string | undefined = undefined
+  const storageChanges: string[] = []
+  const problems: string[] = []
+
+  for (const rawLine of output.split("\n")) {
+    const line = stripLogPrefix(rawLine)
+    if (!line) {
+      continue
+    }
+
+    for (const [name, expression] of Object.entries(checkExpressions) as [
+      TryRuntimeCheck["name"],
+      RegExp,
+    ][]) {
+      if (!expression.test(line)) {
+        continue
+      }
+      if (checkFailureExpression.test(line)) {
+        checks.set(name, false)
+      } else if (
+        checkSuccessExpression.test(line) &&
+        checks.get(name) !== false
+      ) {
+        checks.set(name, true)
+      }
+    }
+
+    const consumedWeightMatch = consumedWeightExpression.exec(line)
+    if (consumedWeightMatch !== null) {
+      consumedWeight = consumedWeightMatch[1].trim()
+    }
+
+    if (
+      storageChangeExpression.test(line) &&
+      storageChanges.length < maxSummaryLines
+    ) {
+      storageChanges.push(line)
+    }
+
+    if (
+      (problemExpression.test(rawLine) || problemExpression.test(line)) &&
+      problems.length < maxSummaryLines
+    ) {
+      problems.push(line)
+    }
+  }
+
+  return {
+    succeeded,
+    checks: Array.from(checks.entries()).map(function ([name, passed]) {
+      return { name, passed }
+    }),
+    consumedWeight,
+    storageChanges,
+    problems,
+  }
+}
+
+export const isTryRuntimeSummaryEmpty = function ({
+  checks,
+  consumedWeight,
+  storageChanges,
+  problems,
+}: TryRuntimeSummary) {
+  return (
+    checks.length === 0 &&
+    consumedWeight === undefined &&
+    storageChanges.length === 0 &&
+    problems.length === 0
+  )
+}
+
+// Rows of the summary table as [label, value]
+export const getTryRuntimeSummaryRows = function ({
+  succeeded,
+  checks,
+  consumedWeight,
+  storageChanges,
+  problems,
+}: TryRuntimeSummary) {
+  const rows: [string, string][] = [["Status", succeeded ? "passed" : "failed"]]
+  for (const { name, passed } of checks) {
+    rows.push([`${name} checks`, passed ? "passed" : "failed"])
+  }
+  if (consumedWeight !== undefined) {
+    rows.push(["Consumed weight", consumedWeight])
+  }
+  if (storageChanges.length) {
+    rows.push(["Storage changes", storageChanges.join("; ")])
+  }
+  if (problems.length) {
+    rows.push(["Panics or errors", problems.join("; ")])
+  }
+  return rows
+}
+
+export const escapeMarkdownTableCell = function (value: string) {
+  return value.replace(/\|/g, "\\|").replace(/`/g, "'")
+}
+
+export const renderTryRuntimeSummaryMarkdown = function (
+  summary: TryRuntimeSummary,
+) {
+  return `| Summary | |
+| --- | --- |
+${getTryRuntimeSummaryRows(summary)
+  .map(function ([label, value]) {
+    return `| ${label} | ${escapeMarkdownTableCell(value)} |`
+  })
+  .join("\n")}
+`
+}
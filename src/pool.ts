@@ -0,0 +1,84 @@
+import { Mutex } from "async-mutex"
+
+export type WorkerPool = ReturnType<typeof getWorkerPool>
+
+// Tasks are dispatched to a fixed amount of workers, identified by their
+// number, so that the queue can tell which worker is holding each task. Tasks
+// which share the same key (e.g. the same repository) are executed one at a
+// time, whereas tasks with different keys are executed in parallel.
+export const getWorkerPool = function ({
+  concurrency,
+}: {
+  concurrency: number
+}) {
+  // The mutex of a key is removed once no task is running or waiting for it
+  const keyMutexes: Map<string, { mutex: Mutex; usersCount: number }> =
+    new Map()
+
+  const freeWorkers: number[] = []
+  for (let workerId = 1; workerId <= concurrency; workerId++) {
+    freeWorkers.push(workerId)
+  }
+  const workerWaiters: ((workerId: number) => void)[] = []
+
+  const acquireWorker = function () {
+    return new Promise<number>(function (resolve) {
+      const workerId = freeWorkers.shift()
+      if (workerId === undefined) {
+        workerWaiters.push(resolve)
+      } else {
+        resolve(workerId)
+      }
+    })
+  }
+
+  const releaseWorker = function (workerId: number) {
+    const nextWaiter = workerWaiters.shift()
+    if (nextWaiter === undefined) {
+      freeWorkers.push(workerId)
+      freeWorkers.sort(function (a, b) {
+        return a - b
+      })
+    } else {
+      nextWaiter(workerId)
+    }
+  }
+
+  const run = function <T>(
+    key: string,
+    callback: (workerId: number) => Promise<T>,
+  ) {
+    let keyMutex = keyMutexes.get(key)
+    if (keyMutex === undefined) {
+      keyMutex = { mutex: new Mutex(), usersCount: 0 }
+      keyMutexes.set(key, keyMutex)
+    }
+    const keyUsage = keyMutex
+    keyUsage.usersCount++
+
+    // Note: async-mutex implements a "fair mutex" which means tasks will be
+    // executed in the same order as they're queued for a given key; the
+    // workers are also handed out in the order they're waited for.
+    return keyUsage.mutex
+      .runExclusive(async function () {
+        const workerId = await acquireWorker()
+        try {
+          return await callback(workerId)
+        } finally {
+          releaseWorker(workerId)
+        }
+      })
+      .finally(function () {
+        keyUsage.usersCount--
+        if (keyUsage.usersCount === 0) {
+          keyMutexes.delete(key)
+        }
+      })
+  }
+
+  const getBusyWorkersCount = function () {
+    return concurrency - freeWorkers.length
+  }
+
+  return { concurrency, run, getBusyWorkersCount }
+}
@@ -0,0 +1,141 @@
+import { formatDistanceStrict } from "date-fns"
+
+import { getSortedTasks } from "./db"
+import { escapeMarkdownTableCell } from "./output"
+import { Task } from "./types"
+import {
+  escapeHtml,
+  getCurrentTaskPhase,
+  getTaskSecrets,
+  redactSecrets,
+} from "./utils"
+
+// Queue entries are displayed publicly (e.g. in pull request comments), thus
+// they only include what's needed for identifying the tasks; the commands have
+// their secrets redacted
+export type QueueEntry = {
+  position: number
+  // The GitHub user for pull request tasks or the Matrix room for API tasks
+  requester: string
+  repo: string
+  branch: string
+  command: string
+  state: string
+  // In the ISO format
+  queuedDate: string
+  waitTime: string
+}
+
+const getTaskRequester = function (task: Task) {
+  switch (task.tag) {
+    case "PullRequestTask": {
+      return `${task.requester} (#${task.pull_number})`
+    }
+    case "ApiTask": {
+      return task.matrixRoom
+    }
+    default: {
+      const exhaustivenessCheck: never = task
+      throw new Error(`Not exhaustive: ${exhaustivenessCheck}`)
+    }
+  }
+}
+
+export const getQueueEntries = async function (
+  state: Parameters<typeof getSortedTasks>[0],
+  { version }: { version: string },
+): Promise<QueueEntry[]> {
+  const now = new Date()
+  return (await getSortedTasks(state, { match: { version } })).map(function (
+    { startDate, taskData },
+    i,
+  ) {
+    const {
+      gitRef: { owner, repo, branch },
+      commandDisplay,
+      workerId,
+    } = taskData
+    const phase = getCurrentTaskPhase(taskData)
+    const taskState = phase?.state ?? "queued"
+    return {
+      position: i + 1,
+      requester: getTaskRequester(taskData),
+      repo: `${owner}/${repo}`,
+      branch,
+      command: redactSecrets(commandDisplay, getTaskSecrets(taskData)),
+      state:
+        workerId === undefined
+          ? taskState
+          : `${taskState} (worker ${workerId})`,
+      queuedDate: startDate.toISOString(),
+      waitTime: formatDistanceStrict(startDate, now),
+    }
+  })
+}
+
+// Position among the tasks which are waiting for a worker; returns undefined if
+// the task is not waiting
+export const getWaitingPosition = async function (
+  state: Parameters<typeof getSortedTasks>[0],
+  { tag, handleId, version }: Pick<Task, "tag" | "handleId" | "version">,
+) {
+  const waitingItems = (
+    await getSortedTasks(state, { match: { version } })
+  ).filter(function ({ taskData }) {
+    return taskData.workerId === undefined
+  })
+  const index = waitingItems.findIndex(function ({ taskData }) {
+    return taskData.tag === tag && taskData.handleId === handleId
+  })
+  if (index === -1) {
+    return
+  }
+  return { position: index + 1, waitingCount: waitingItems.length }
+}
+
+export const renderQueueMarkdown = function (entries: QueueEntry[]) {
+  return `| # | Requester | Repository | Branch | Command | State | Waiting for |
+| --- | --- | --- | --- | --- | --- | --- |
+${entries
+  .map(function ({
+    position,
+    requester,
+    repo,
+    branch,
+    command,
+    state,
+    waitTime,
+  }) {
+    return `| ${position} | ${escapeMarkdownTableCell(
+      requester,
+    )} | ${escapeMarkdownTableCell(repo)} | ${escapeMarkdownTableCell(
+      branch,
+    )} | \`${escapeMarkdownTableCell(command)}\` | ${escapeMarkdownTableCell(
+      state,
+    )} | ${escapeMarkdownTableCell(waitTime)} |`
+  })
+  .join("\n")}
+`
+}
+
+export const renderQueueHtml = function (entries: QueueEntry[]) {
+  return `<table><tr><th>#</th><th>Requester</th><th>Repository</th><th>Branch</th><th>Command</th><th>State</th><th>Waiting for</th></tr>${entries
+    .map(function ({
+      position,
+      requester,
+      repo,
+      branch,
+      command,
+      state,
+      waitTime,
+    }) {
+      return `<tr><td>${position}</td><td>${escapeHtml(
+        requester,
+      )}</td><td>${escapeHtml(repo)}</td><td>${escapeHtml(
+        branch,
+      )}</td><td><code>${escapeHtml(command)}</code></td><td>${escapeHtml(
+        state,
+      )}</td><td>${escapeHtml(waitTime)}</td></tr>`
+    })
+    .join("")}</table>`
+}
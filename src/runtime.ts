@@ -0,0 +1,96 @@
+import crypto from "crypto"
+import fs from "fs"
+import path from "path"
+
+// For tasks in runtime-only mode, only the runtime's WASM is compiled and the
+// command is executed from the prebuilt node binary configured for the bot,
+// which receives the WASM through try-runtime's --runtime option
+export type RuntimeOnlyOptions = {
+  // Name of the package of the runtime, e.g. polkadot-runtime
+  runtimePackage: string
+}
+
+export type RuntimeOnlyDetails = {
+  nodeBinary: string
+  nodeVersion: string
+  wasmFile: string
+  wasmSha256: string
+}
+
+// The paths where substrate-wasm-builder puts the runtime's WASM, from the
+// most to the least preferred
+const getRuntimeWasmCandidates = function (
+  targetDir: string,
+  { runtimePackage, profile }: RuntimeOnlyOptions & { profile: string },
+) {
+  const wasmDir = path.join(targetDir, profile, "wbuild", runtimePackage)
+  const wasmName = runtimePackage.replace(/-/g, "_")
+  return [
+    path.join(wasmDir, `${wasmName}.compact.compressed.wasm`),
+    path.join(wasmDir, `${wasmName}.compact.wasm`),
+    path.join(wasmDir, `${wasmName}.wasm`),
+  ]
+}
+
+export const findRuntimeWasm = function (
+  targetDir: string,
+  options: RuntimeOnlyOptions & { profile: string },
+) {
+  return getRuntimeWasmCandidates(targetDir, options).find(function (
+    candidate,
+  ) {
+    return fs.existsSync(candidate)
+  })
+}
+
+// Profile of a `cargo build` command according to its arguments
+export const getCargoProfile = function (buildArgs: string[]) {
+  for (let i = 0; i < buildArgs.length; i++) {
+    const arg = buildArgs[i]
+    if (arg === "--release") {
+      return "release"
+    }
+    if (arg === "--profile" && i + 1 < buildArgs.length) {
+      return buildArgs[i + 1]
+    }
+    if (arg.startsWith("--profile=")) {
+      return arg.slice("--profile=".length)
+    }
+  }
+  return "debug"
+}
+
+export const getFileSha256 = async function (file: string) {
+  return crypto
+    .createHash("sha256")
+    .update(await fs.promises.readFile(file))
+    .digest("hex")
+}
+
+// Inserts the --runtime option right after try-runtime's sub-command
+export const getRuntimeOnlyProgramArgs = function (
+  programArgs: string[],
+  wasmFile: string,
+) {
+  const subCommandIndex = programArgs.indexOf("try-runtime")
+  if (subCommandIndex === -1) {
+    return undefined
+  }
+  return [
+    ...programArgs.slice(0, subCommandIndex + 1),
+    `--runtime=${wasmFile}`,
+    ...programArgs.slice(subCommandIndex + 1),
+  ]
+}
+
+export const displayRuntimeOnlyDetails = function ({
+  nodeBinary,
+  nodeVersion,
+  wasmFile,
+  wasmSha256,
+}: RuntimeOnlyDetails) {
+  return {
+    node: `${nodeBinary} (${nodeVersion})`,
+    wasm: `${path.basename(wasmFile)} (SHA-256: ${wasmSha256})`,
+  }
+}
@@ -0,0 +1,307 @@
+import { addMinutes, startOfMinute } from "date-fns"
+import path from "path"
+
+import { getSchedules, updateSchedule } from "./db"
+import {
+  getApiTaskHandle,
+  getRegisterApiTaskHandle,
+  isAcceptingNewTasks,
+  queue,
+} from "./executor"
+import { ApiTask, Schedule, State } from "./types"
+import {
+  displayCommand,
+  getNodeRuns,
+  getParsedArgs,
+  getSendScheduledRunResult,
+} from "./utils"
+
+type CronField = { name: string; min: number; max: number }
+
+const cronFields: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  // Both 0 and 7 stand for Sunday
+  { name: "day of week", min: 0, max: 7 },
+]
+
+export type CronExpression = {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  // As in cron, if both the day of month and the day of week are restricted,
+  // a date matches if either of them matches
+  isDayOfMonthRestricted: boolean
+  isDayOfWeekRestricted: boolean
+}
+
+// Parses a field which is made of a comma-separated list of "*", values or
+// ranges (e.g. "1-5"), each optionally followed by a step (e.g. "*/15")
+const parseCronField = function (
+  field: string,
+  { name, min, max }: CronField,
+): Set<number> | Error {
+  const values: Set<number> = new Set()
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/)
+    if (match === null) {
+      return new Error(`Invalid ${name} "${part}"`)
+    }
+
+    const [, range, rawStart, rawEnd, rawStep] = match
+    const start = range === "*" ? min : parseInt(rawStart)
+    const end =
+      range === "*"
+        ? max
+        : rawEnd !== undefined
+        ? parseInt(rawEnd)
+        : // "5/15" means "from 5 until the maximum, every 15"
+        rawStep !== undefined
+        ? max
+        : start
+    const step = rawStep === undefined ? 1 : parseInt(rawStep)
+    if (start < min || end > max || start > end || step < 1) {
+      return new Error(
+        `Invalid ${name} "${part}"; values should be between ${min} and ${max}`,
+      )
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+  return values
+}
+
+export const parseCronExpression = function (
+  expression: string,
+): CronExpression | Error {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== cronFields.length) {
+    return new Error(
+      `Cron expression "${expression}" should have ${cronFields.length} fields (minute, hour, day of month, month and day of week)`,
+    )
+  }
+
+  const parsedFields: Set<number>[] = []
+  for (const [i, field] of fields.entries()) {
+    const parsedField = parseCronField(field, cronFields[i])
+    if (parsedField instanceof Error) {
+      return parsedField
+    }
+    parsedFields.push(parsedField)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsedFields
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0)
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    isDayOfMonthRestricted: !fields[2].startsWith("*"),
+    isDayOfWeekRestricted: !fields[4].startsWith("*"),
+  }
+}
+
+// Cron expressions are evaluated in UTC
+export const matchesCronExpression = function (
+  {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    isDayOfMonthRestricted,
+    isDayOfWeekRestricted,
+  }: CronExpression,
+  date: Date,
+) {
+  const dayOfMonthMatches = daysOfMonth.has(date.getUTCDate())
+  const dayOfWeekMatches = daysOfWeek.has(date.getUTCDay())
+  return (
+    minutes.has(date.getUTCMinutes()) &&
+    hours.has(date.getUTCHours()) &&
+    months.has(date.getUTCMonth() + 1) &&
+    (isDayOfMonthRestricted && isDayOfWeekRestricted
+      ? dayOfMonthMatches || dayOfWeekMatches
+      : dayOfMonthMatches && dayOfWeekMatches)
+  )
+}
+
+// Returns the reason why the schedule is invalid, if any
+export const getScheduleValidationError = function (
+  {
+    nodesAddresses,
+    prebuiltNodeBinary,
+  }: Pick<State, "nodesAddresses" | "prebuiltNodeBinary">,
+  { cron, args, runtimeOnly }: Pick<Schedule, "cron" | "args" | "runtimeOnly">,
+) {
+  const cronExpression = parseCronExpression(cron)
+  if (cronExpression instanceof Error) {
+    return cronExpression.message
+  }
+
+  const parsedArgs = getParsedArgs(nodesAddresses, args)
+  if (typeof parsedArgs === "string") {
+    return parsedArgs
+  }
+
+  if (runtimeOnly !== undefined && prebuiltNodeBinary === null) {
+    return "The runtime-only mode is not available since no prebuilt node binary is configured"
+  }
+}
+
+const getScheduledTask = function (
+  {
+    version,
+    getUniqueId,
+    nodesAddresses,
+    repositoryCloneDirectory,
+  }: Pick<
+    State,
+    "version" | "getUniqueId" | "nodesAddresses" | "repositoryCloneDirectory"
+  >,
+  {
+    id,
+    execPath,
+    args: scheduleArgs,
+    env,
+    gitRef,
+    runtimeOnly,
+    matrixRoom,
+  }: Schedule,
+): (ApiTask & { scheduleId: string }) | string {
+  // The arguments are parsed for every run so that changes to the nodes'
+  // addresses are taken into account
+  const parsedArgs = getParsedArgs(nodesAddresses, scheduleArgs)
+  if (typeof parsedArgs === "string") {
+    return parsedArgs
+  }
+  const [{ args }] = parsedArgs
+  const nodeRuns = getNodeRuns(parsedArgs)
+
+  return {
+    tag: "ApiTask",
+    version,
+    handleId: getUniqueId(),
+    timesRequeued: 0,
+    timesAttempted: 0,
+    phases: [],
+    commandDisplay: displayCommand({
+      execPath,
+      args: nodeRuns === undefined ? args : scheduleArgs,
+      secretsToHide: [],
+    }),
+    execPath,
+    args,
+    env,
+    gitRef,
+    nodeRuns,
+    runtimeOnly,
+    matrixRoom,
+    scheduleId: id,
+    repoPath: path.join(repositoryCloneDirectory, gitRef.repo),
+  }
+}
+
+const runSchedule = async function (state: State, schedule: Schedule) {
+  const { logger, matrix } = state
+
+  if (matrix === null) {
+    logger.fatal(
+      schedule,
+      "The schedule cannot be run because Matrix client is missing",
+    )
+    return
+  }
+
+  const taskData = getScheduledTask(state, schedule)
+  if (typeof taskData === "string") {
+    await matrix.sendText(
+      schedule.matrixRoom,
+      `The schedule ${schedule.id} (${schedule.cron}) could not be run: ${taskData}`,
+    )
+    return
+  }
+
+  await updateSchedule(state, schedule.id, function (schedule) {
+    return {
+      ...schedule,
+      lastRun: { date: new Date().toISOString(), handleId: taskData.handleId },
+    }
+  })
+
+  const message = await queue({
+    state,
+    taskData,
+    onResult: getSendScheduledRunResult(matrix, state, taskData),
+    registerHandle: getRegisterApiTaskHandle(taskData),
+  })
+  logger.info({ schedule, message }, `Queued run of schedule ${schedule.id}`)
+}
+
+const runDueSchedules = async function (state: State, date: Date) {
+  const { logger } = state
+
+  // New tasks are not accepted while the application is shutting down
+  if (!isAcceptingNewTasks()) {
+    return
+  }
+
+  for (const schedule of await getSchedules(state)) {
+    try {
+      const cronExpression = parseCronExpression(schedule.cron)
+      if (cronExpression instanceof Error) {
+        logger.error(cronExpression, `Schedule ${schedule.id} is invalid`)
+        continue
+      }
+
+      if (!matchesCronExpression(cronExpression, date)) {
+        continue
+      }
+
+      if (
+        schedule.lastRun !== undefined &&
+        getApiTaskHandle(schedule.lastRun.handleId) !== undefined
+      ) {
+        logger.info(
+          schedule,
+          `Skipping run of schedule ${schedule.id} since its previous run is still in progress`,
+        )
+        continue
+      }
+
+      await runSchedule(state, schedule)
+    } catch (error) {
+      logger.fatal(error, `Failed to run schedule ${schedule.id}`)
+    }
+  }
+}
+
+// Schedules are checked at the start of every minute; runs which were due
+// while the application was offline are not made up for
+export const startScheduler = function (state: State) {
+  const { logger } = state
+
+  const scheduleNextCheck = function () {
+    const nextMinute = startOfMinute(addMinutes(new Date(), 1))
+    setTimeout(function () {
+      void runDueSchedules(state, nextMinute)
+        .catch(function (error) {
+          logger.fatal(error, "Failed to run the due schedules")
+        })
+        .finally(scheduleNextCheck)
+    }, nextMinute.getTime() - Date.now())
+  }
+
+  scheduleNextCheck()
+}
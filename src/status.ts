@@ -0,0 +1,156 @@
+import { differenceInMilliseconds, parseISO } from "date-fns"
+
+import { getSortedTasks, getTaskHistory } from "./db"
+import { getPullRequestTaskHandle } from "./executor"
+import { getWaitingPosition } from "./queue"
+import { State, Task } from "./types"
+import { displayDuration, getCurrentTaskPhase } from "./utils"
+
+// How many of the latest tasks of a repository are taken into account for
+// estimating how long a task takes
+const durationEstimateSampleSize = 10
+
+const getAverageTaskDuration = async function (
+  state: Parameters<typeof getTaskHistory>[0],
+  repo: string,
+) {
+  const durations = (await getTaskHistory(state, { repo }))
+    .slice(-durationEstimateSampleSize)
+    .reduce(function (acc, { startDate, endDate }) {
+      if (startDate !== null) {
+        acc.push(
+          differenceInMilliseconds(parseISO(endDate), parseISO(startDate)),
+        )
+      }
+      return acc
+    }, [] as number[])
+  if (durations.length === 0) {
+    return
+  }
+  return (
+    durations.reduce(function (acc, duration) {
+      return acc + duration
+    }, 0) / durations.length
+  )
+}
+
+// Rough estimate which assumes that every task ahead in the queue takes the
+// average duration and that all workers are busy
+const getEstimatedStartDate = function (
+  {
+    tasksAhead,
+    averageDuration,
+    concurrency,
+  }: { tasksAhead: number; averageDuration: number; concurrency: number },
+  now: Date,
+) {
+  return new Date(
+    now.getTime() +
+      (Math.floor(tasksAhead / concurrency) + 1) * averageDuration,
+  )
+}
+
+// Describes where the pull request's task stands; returns undefined if there's
+// no task for the pull request
+export const getPullRequestTaskStatus = async function (
+  state: Pick<
+    State,
+    "taskDb" | "parseTaskId" | "historyDb" | "nodesAddresses" | "workerPool"
+  >,
+  { handleId, version }: { handleId: string; version: string },
+) {
+  const handle = getPullRequestTaskHandle(handleId)
+  if (handle === undefined) {
+    return
+  }
+
+  const items = await getSortedTasks(state, { match: { version } })
+  const item = items.find(function ({ taskData }) {
+    return taskData.tag === "PullRequestTask" && taskData.handleId === handleId
+  })
+  // The handle's task is the data which the task was queued with, whereas the
+  // database has its current phase
+  const task: Task = item?.taskData ?? handle.task
+  const {
+    gitRef: { branch, sha, mergeBase },
+    workerId,
+    commandDisplay,
+  } = task
+
+  const now = new Date()
+  const firstPhase = task.phases[0] as Task["phases"][number] | undefined
+  const currentPhase = getCurrentTaskPhase(task)
+
+  const lines = [
+    `Status of \`${handle.task.shortId}\` (\`${commandDisplay}\`):`,
+    "",
+    `- Commit: ${sha ?? "head"} of \`${branch}\`${
+      mergeBase === undefined ? "" : ` merged onto \`${mergeBase}\``
+    }`,
+    `- Phase: ${
+      currentPhase === undefined
+        ? "queued"
+        : `${currentPhase.state} (for ${displayDuration(
+            parseISO(currentPhase.date),
+            now,
+          )})`
+    }`,
+  ]
+  if (firstPhase !== undefined) {
+    lines.push(
+      `- Elapsed time: ${displayDuration(parseISO(firstPhase.date), now)}`,
+    )
+  }
+
+  if (workerId === undefined) {
+    // The task might not have been persisted yet, in which case it's the last
+    // one in the queue
+    const waitingCount = items.filter(function ({ taskData }) {
+      return taskData.workerId === undefined
+    }).length
+    const { position } = (await getWaitingPosition(state, task)) ?? {
+      position: waitingCount + 1,
+    }
+    const tasksAhead = position - 1
+    lines.push(
+      `- Queue position: ${position} of ${Math.max(
+        waitingCount,
+        position,
+      )} waiting tasks`,
+    )
+
+    const averageDuration = await getAverageTaskDuration(
+      state,
+      task.gitRef.repo,
+    )
+    if (
+      task.startAfter !== undefined &&
+      parseISO(task.startAfter).getTime() > now.getTime()
+    ) {
+      lines.push(`- Estimated start: not before ${task.startAfter}`)
+    } else if (averageDuration === undefined) {
+      lines.push(
+        "- Estimated start: unknown (no previous tasks for this repository)",
+      )
+    } else {
+      const estimatedStartDate = getEstimatedStartDate(
+        {
+          tasksAhead,
+          averageDuration,
+          concurrency: state.workerPool.concurrency,
+        },
+        now,
+      )
+      lines.push(
+        `- Estimated start: around ${estimatedStartDate.toISOString()} (in ${displayDuration(
+          now,
+          estimatedStartDate,
+        )})`,
+      )
+    }
+  } else {
+    lines.push(`- Executing on worker ${workerId}`)
+  }
+
+  return lines.join("\n")
+}
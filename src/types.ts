@@ -2,8 +2,11 @@ import { EmitterWebhookEventName } from "@octokit/webhooks/dist-types/types"
 import { MatrixClient } from "matrix-bot-sdk"
 import { Probot } from "probot"
 
-import type { AccessDB, TaskDB } from "./db"
+import type { AccessDB, HistoryDB, ScheduleDB, TaskDB } from "./db"
 import { Logger } from "./logger"
+import type { TryRuntimeSummary } from "./output"
+import type { WorkerPool } from "./pool"
+import type { RuntimeOnlyDetails, RuntimeOnlyOptions } from "./runtime"
 
 export type PullRequestParams = {
   owner: string
@@ -11,50 +14,181 @@ export type PullRequestParams = {
   pull_number: number
 }
 
-type GitRef = {
+export type GitRef = {
   contributor: string
   owner: string
   repo: string
   branch: string
+  // The commit which should be tested; if it's not specified, the branch's
+  // head at the time of execution is used
+  sha?: string
+  // If specified, the commit is merged onto this branch of the owner's
+  // repository before being tested
+  mergeBase?: string
 }
 
+export type TaskOutcome = "succeeded" | "failed" | "cancelled"
+
+// The outcome of tasks which were not cancelled
+export type FinishedTaskOutcome = Exclude<TaskOutcome, "cancelled">
+
+export type TaskState =
+  | "queued"
+  | "cloning"
+  | "fetching"
+  | "building"
+  | "running"
+  // Stopped due to the application's shutdown
+  | "interrupted"
+  | TaskOutcome
+
+// Dates are in the ISO format
+export type TaskPhase = { state: TaskState; date: string }
+
 type TaskBase<T> = {
   tag: T
   handleId: string
   version: string
   timesRequeued: number
-  timesRequeuedSnapshotBeforeExecution: number
-  timesExecuted: number
+  // How many times the task started executing and got stopped by a crash of
+  // the application; interruptions for shutdowns are not counted
+  timesAttempted: number
+  // If specified, the task only starts executing after this date (in the ISO
+  // format); used for delaying requeued tasks
+  startAfter?: string
+  // Every state transition of the task, including the ones from previous
+  // executions in case the task was requeued; the last phase is the current
+  // one
+  phases: TaskPhase[]
   commandDisplay: string
   execPath: string
   args: string[]
   env: Record<string, string>
+  // Values which are redacted from the task's output, on top of the ones of
+  // getSecretEnvValues; only specified through the API
+  secretsToHide?: string[]
   gitRef: GitRef
   repoPath: string
+  // Set once a worker from the pool picks up the task
+  workerId?: number
+  // If specified, the command is compiled once and then executed once per node
+  // with the respective arguments; "args" holds the arguments of the first
+  // node
+  nodeRuns?: { node: string; args: string[] }[]
+  // If specified, only the runtime is compiled and the command is executed
+  // from the prebuilt node binary
+  runtimeOnly?: RuntimeOnlyOptions
 }
 
 export type PullRequestTask = TaskBase<"PullRequestTask"> &
   PullRequestParams & {
     commentId: number
+    // The comment where the command was requested; not available for tasks
+    // which were queued before it started being tracked
+    requestCommentId?: number
     installationId: number
     requester: string
+    // Identifies the task among the other tasks of the pull request
+    shortId: string
   }
 
 export type ApiTask = TaskBase<"ApiTask"> & {
   matrixRoom: string
+  // Only specified for tasks which were started by a schedule
+  scheduleId?: string
+}
+
+// Dates are in the ISO format
+export type Schedule = {
+  id: string
+  // Cron expression with 5 fields (minute, hour, day of month, month and day of
+  // week), evaluated in UTC
+  cron: string
+  execPath: string
+  args: string[]
+  env: Record<string, string>
+  gitRef: GitRef
+  runtimeOnly?: RuntimeOnlyOptions
+  // Where the notifications are sent to
+  matrixRoom: string
+  createdDate: string
+  // The last run which was started by the schedule
+  lastRun?: { date: string; handleId: string }
+  // Outcome of the last run which finished; notifications are only sent when
+  // it changes
+  lastOutcome?: FinishedTaskOutcome
 }
 
 export type Task = PullRequestTask | ApiTask
 
+export type TaskHistoryEntry = {
+  taskId: string
+  task: Task
+  outcome: TaskOutcome
+  // Dates are in the ISO format; startDate is null if the task was cancelled
+  // before it started
+  startDate: string | null
+  endDate: string
+  sha: string | null
+  // Exit code of the task's command; null if the command was not executed or
+  // if it could not be spawned
+  exitCode: number | null
+  outputExcerpt: string
+}
+
 export type CommandOutput = Error | string
 
+export type TaskResultDetails = {
+  // The commit which was actually tested; it's missing if the task failed
+  // before the branch could be checked out
+  sha: string | undefined
+  mergeBase?: { branch: string; sha: string }
+  // Link to the task's log file, if the server's public URL is known
+  logUrl?: string
+  // Repositories or target directories which had to be evicted for freeing
+  // disk space for the task
+  diskEvictions?: string
+  // Whether the binary was taken from the cache instead of being compiled
+  usedCachedBuild?: boolean
+  // Highlights of try-runtime's output, if any were found
+  summary?: TryRuntimeSummary
+  // Only specified for tasks which were executed in runtime-only mode
+  runtimeOnly?: RuntimeOnlyDetails
+  // Only specified for tasks which were executed for multiple nodes
+  nodeResults?: NodeResult[]
+}
+
+export type NodeResult = {
+  node: string
+  succeeded: boolean
+  output: string
+  summary?: TryRuntimeSummary
+}
+
 type TaskIdParseResult = { date: Date; suffix?: string } | Error
+export type RequeuePolicy = {
+  // Maximum amount of times a task may be attempted before it is given up on
+  // when the application restarts; 0 means that tasks are never requeued
+  maxAttempts: number
+  // In milliseconds; the delay before a requeued task starts again, doubled on
+  // every subsequent attempt
+  backoff: number
+}
+
+// What happens to the tasks of a pull request when new commits are pushed to
+// its branch: either they're cancelled or the queued ones are changed to test
+// the new head commit; running tasks are left alone in the latter case
+export type PushPolicy = "cancel" | "retarget"
+
 export type State = {
   appName: string
   version: string
   bot: Probot
   taskDb: TaskDB
   accessDb: AccessDB
+  historyDb: HistoryDB
+  historyRetention: { maxEntries: number; maxAgeDays: number }
+  scheduleDb: ScheduleDB
   getFetchEndpoint: (
     installationId: number | null,
   ) => Promise<{ token: string; url: string }>
@@ -62,6 +196,9 @@ export type State = {
   allowedOrganizations: number[]
   logger: Logger
   repositoryCloneDirectory: string
+  worktreesDirectory: string
+  taskLogsDirectory: string
+  publicUrl: string | null
   deployment: { environment: string; container: string } | undefined
   matrix: MatrixClient | null
   masterToken: string | null
@@ -69,6 +206,26 @@ export type State = {
   getTaskId: () => string
   parseTaskId: (id: string) => TaskIdParseResult
   nodesAddresses: Record<string, string>
+  workerPool: WorkerPool
+  // In milliseconds; null means that tasks are never timed out
+  taskTimeouts: Record<Task["tag"], number | null>
+  // In milliseconds; how long processes are given to exit after SIGTERM before
+  // they are killed with SIGKILL
+  taskKillGracePeriod: number
+  requeuePolicies: Record<Task["tag"], RequeuePolicy>
+  // In bytes; when the free disk space is below this amount before a task
+  // starts, the least recently used repositories and target directories are
+  // evicted. null disables the check.
+  diskSpaceWatermark: number | null
+  // maxSize is in bytes; null disables the cache
+  binaryCache: { directory: string; maxSize: number } | null
+  // Node binary used for tasks in runtime-only mode; null disables the mode
+  prebuiltNodeBinary: string | null
+  // How many comments or messages a task's result might be split into; when
+  // the output doesn't fit, only its last lines are posted
+  maxResultMessages: number
+  // Indexed by "owner/repo"; repositories which are not listed use "cancel"
+  pushPolicies: Record<string, PushPolicy>
 }
 
 export class PullRequestError {
@@ -88,5 +245,9 @@ export type Octokit = Awaited<ReturnType<Probot["auth"]>>
 
 export type WebhookEvents = Extract<
   EmitterWebhookEventName,
-  "issue_comment.created"
+  | "issue_comment.created"
+  | "issue_comment.edited"
+  | "issue_comment.deleted"
+  | "pull_request.closed"
+  | "pull_request.synchronize"
 >
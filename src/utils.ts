@@ -5,9 +5,19 @@ import { MatrixClient } from "matrix-bot-sdk"
 import path from "path"
 import { promisify } from "util"
 
-import { ShellExecutor } from "./executor"
-import { Logger } from "./logger"
-import { ApiTask, CommandOutput, State } from "./types"
+import { updateSchedule } from "./db"
+import { FailureCategory, FailureClassification } from "./failures"
+import { getTryRuntimeSummaryRows, TryRuntimeSummary } from "./output"
+import { displayRuntimeOnlyDetails } from "./runtime"
+import {
+  ApiTask,
+  CommandOutput,
+  FinishedTaskOutcome,
+  NodeResult,
+  State,
+  Task,
+  TaskResultDetails,
+} from "./types"
 
 const fsExists = promisify(fs.exists)
 const fsRmdir = promisify(fs.rmdir)
@@ -78,6 +88,92 @@ export const redactSecrets = function (str: string, secrets: string[] = []) {
   return str
 }
 
+// Options of `cargo run` which take a value as the following argument
+const cargoRunOptionsWithValue = [
+  "-p",
+  "--package",
+  "--bin",
+  "--example",
+  "-F",
+  "--features",
+  "--target",
+  "--target-dir",
+  "-j",
+  "--jobs",
+  "--manifest-path",
+  "--profile",
+  "--color",
+  "--config",
+  "-Z",
+  "--message-format",
+]
+
+// For a `cargo run` command, returns the `cargo build` command which compiles
+// the same binary, so that compilation can be tracked separately from the
+// binary's execution
+export const getCargoBuildCommand = function (
+  execPath: string,
+  args: string[],
+) {
+  if (path.basename(execPath) !== "cargo") {
+    return undefined
+  }
+
+  let i = 0
+  const toolchainArgs: string[] = []
+  while (i < args.length && args[i].startsWith("+")) {
+    toolchainArgs.push(args[i])
+    i++
+  }
+
+  if (args[i] !== "run") {
+    return undefined
+  }
+  i++
+
+  const buildOptions: string[] = []
+  while (i < args.length) {
+    const arg = args[i]
+    if (arg === "--" || !arg.startsWith("-")) {
+      break
+    }
+    buildOptions.push(arg)
+    i++
+    if (cargoRunOptionsWithValue.includes(arg) && i < args.length) {
+      buildOptions.push(args[i])
+      i++
+    }
+  }
+
+  // The arguments which `cargo run` passes to the binary
+  const programArgs = args.slice(args[i] === "--" ? i + 1 : i)
+
+  return {
+    execPath,
+    args: [...toolchainArgs, "build", ...buildOptions],
+    toolchainArgs,
+    programArgs,
+  }
+}
+
+// Values of environment variables which are likely to hold credentials
+export const getSecretEnvValues = function (env: Record<string, string>) {
+  return Object.entries(env)
+    .filter(function ([name]) {
+      return /TOKEN|SECRET|PASSWORD|KEY/i.test(name)
+    })
+    .map(function ([, value]) {
+      return value
+    })
+}
+
+export const getTaskSecrets = function ({
+  env,
+  secretsToHide,
+}: Pick<Task, "env" | "secretsToHide">) {
+  return [...getSecretEnvValues(env), ...(secretsToHide ?? [])]
+}
+
 export const displayCommand = function ({
   execPath,
   args,
@@ -104,7 +200,7 @@ export const ensureDir = async function (dir: string) {
 }
 
 export const removeDir = async function (dir: string) {
-  if (!(await fsExists(dir))) {
+  if (await fsExists(dir)) {
     await fsRmdir(dir, { recursive: true })
   }
   return dir
@@ -119,6 +215,10 @@ export const initDatabaseDir = async function (dir: string) {
   return dir
 }
 
+export const getCurrentTaskPhase = function ({ phases }: Pick<Task, "phases">) {
+  return phases[phases.length - 1] as Task["phases"][number] | undefined
+}
+
 export const getDeploymentLogsMessage = function (
   deployment: State["deployment"],
 ) {
@@ -129,13 +229,31 @@ export const getDeploymentLogsMessage = function (
   return `The logs for this command should be available on Grafana for the data source \`loki.${deployment.environment}\` and query \`{container=~"${deployment.container}"}\``
 }
 
+export const getTaskLogPath = function (
+  taskLogsDirectory: string,
+  handleId: string,
+) {
+  return path.join(taskLogsDirectory, `${encodeURIComponent(handleId)}.log`)
+}
+
+export const getTaskLogUrl = function (
+  publicUrl: State["publicUrl"],
+  handleId: string,
+) {
+  if (publicUrl === null) {
+    return undefined
+  }
+
+  return `${publicUrl}/api/tasks/${encodeURIComponent(handleId)}/log`
+}
+
 export class Retry {
-  context: string
+  context: FailureCategory
   motive: string
   stderr: string
 
   constructor(options: {
-    context: "compilation error"
+    context: FailureCategory
     motive: string
     stderr: string
   }) {
@@ -145,50 +263,238 @@ export class Retry {
   }
 }
 
+// Error for commands which exited with a non-zero exit code
+export class CommandError extends Error {
+  constructor(
+    message: string,
+    public exitCode: number,
+    // The classification of the failure, if it matched any of the known ones
+    public failure?: FailureClassification,
+  ) {
+    super(message)
+  }
+}
+
+// Errors whose message is already meant to be read by users, thus their stack
+// would only be noise in the output
+export class UserFacingError extends Error {}
+
 export const displayError = function (e: Error) {
+  if (e instanceof UserFacingError) {
+    return e.message
+  }
+  if (e instanceof CommandError && e.failure !== undefined) {
+    return `${e.failure.explanation}\n\n${e.toString()}\n${e.stack}`
+  }
   return `${e.toString()}\n${e.stack}`
 }
 
+export const displayNodeResults = function (nodeResults: NodeResult[]) {
+  return nodeResults
+    .map(function ({ node, succeeded, output }) {
+      return `--- ${node}: ${succeeded ? "succeeded" : "failed"} ---\n${output}`
+    })
+    .join("\n\n")
+}
+
+export const displayTestedRevision = function ({
+  sha,
+  mergeBase,
+}: TaskResultDetails) {
+  if (sha === undefined) {
+    return undefined
+  }
+  if (mergeBase === undefined) {
+    return sha
+  }
+  return `${sha} merged onto ${mergeBase.branch} (${mergeBase.sha})`
+}
+
+// Extracts the options which are meant for the bot itself, as opposed to the
+// ones which should be forwarded to try-runtime, in the forms --foo and
+// --foo=bar
+export const extractBotOptions = function <T extends string>(
+  args: string[],
+  optionNames: T[],
+) {
+  const options: Partial<Record<T, string | true>> = {}
+  const otherArgs: string[] = []
+
+  toNextArg: for (const arg of args) {
+    for (const optionName of optionNames) {
+      const prefix = `--${optionName}`
+      if (arg === prefix) {
+        options[optionName] = true
+        continue toNextArg
+      }
+      if (arg.startsWith(`${prefix}=`)) {
+        options[optionName] = arg.slice(prefix.length + 1)
+        continue toNextArg
+      }
+    }
+    otherArgs.push(arg)
+  }
+
+  return { options, otherArgs }
+}
+
+// Splits the output into pages of at most pageSize characters on line
+// boundaries. If more than maxPages would be needed, the first lines are
+// omitted since the end of the output is usually the most relevant part (e.g.
+// it's where panics are reported).
+export const paginateOutput = function (
+  output: string,
+  { pageSize, maxPages }: { pageSize: number; maxPages: number },
+) {
+  assert(pageSize > 0, `Invalid page size ${pageSize}`)
+
+  const lines: string[] = []
+  for (const line of output.split("\n")) {
+    for (let i = 0; i === 0 || i < line.length; i += pageSize) {
+      lines.push(line.slice(i, i + pageSize))
+    }
+  }
+
+  const pages: string[][] = []
+  let page: string[] = []
+  let pageLength = 0
+  let omittedLines = 0
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i]
+    const addedLength = page.length === 0 ? line.length : line.length + 1
+    if (pageLength + addedLength <= pageSize) {
+      page.unshift(line)
+      pageLength += addedLength
+      continue
+    }
+
+    pages.unshift(page)
+    if (pages.length === maxPages) {
+      omittedLines = i + 1
+      page = []
+      break
+    }
+    page = [line]
+    pageLength = line.length
+  }
+  if (page.length) {
+    pages.unshift(page)
+  }
+
+  return {
+    pages: pages.map(function (pageLines) {
+      return pageLines.join("\n")
+    }),
+    omittedLines,
+  }
+}
+
+// Events in Matrix are limited to 65536 bytes; the pages are kept well below
+// it since escaping the output for HTML might increase its size
+const matrixPageSize = 16384
+
 export const getSendMatrixResult = function (
   matrix: MatrixClient,
-  logger: Logger,
+  { logger, maxResultMessages }: Pick<State, "logger" | "maxResultMessages">,
   {
     matrixRoom,
     handleId,
     commandDisplay,
   }: Pick<ApiTask, "matrixRoom" | "handleId" | "commandDisplay">,
 ) {
-  return async function (message: CommandOutput) {
+  return async function (message: CommandOutput, details: TaskResultDetails) {
     try {
       const fileName = `${handleId}-log.txt`
       const buf = message instanceof Error ? displayError(message) : message
-      const messagePrefix = `Handle ID ${handleId} has finished.`
-
-      const lineCount = (buf.match(/\n/g) || "").length + 1
-      if (lineCount < 128) {
+      const testedRevision = displayTestedRevision(details)
+      const runtimeOnlyDetails =
+        details.runtimeOnly === undefined
+          ? undefined
+          : displayRuntimeOnlyDetails(details.runtimeOnly)
+      const finishedDetails = [
+        testedRevision === undefined
+          ? undefined
+          : `tested commit: ${testedRevision}`,
+        details.logUrl === undefined
+          ? undefined
+          : `full log: ${details.logUrl}`,
+        details.usedCachedBuild ? "used a cached build" : undefined,
+        runtimeOnlyDetails === undefined
+          ? undefined
+          : `node binary: ${runtimeOnlyDetails.node}`,
+        runtimeOnlyDetails === undefined
+          ? undefined
+          : `runtime: ${runtimeOnlyDetails.wasm}`,
+        details.diskEvictions === undefined
+          ? undefined
+          : `evicted for freeing disk space: ${details.diskEvictions}`,
+      ].filter(function (detail) {
+        return detail !== undefined
+      })
+      const messagePrefix = `Handle ID ${handleId} has finished${
+        finishedDetails.length ? ` (${finishedDetails.join("; ")})` : ""
+      }.`
+      const renderSummaryHtml = function (summary: TryRuntimeSummary) {
+        return `<table>${getTryRuntimeSummaryRows(summary)
+          .map(function ([label, value]) {
+            return `<tr><td>${escapeHtml(
+              label,
+            )}</td><td>${escapeHtml(value)}</td></tr>`
+          })
+          .join("")}</table>`
+      }
+      // As in the pull request comments, each node gets its own summary when
+      // the command was executed for multiple nodes
+      const summaryHtml =
+        details.nodeResults === undefined
+          ? details.summary === undefined
+            ? ""
+            : renderSummaryHtml(details.summary)
+          : details.nodeResults
+              .map(function ({ node, succeeded, summary }) {
+                return `<b>${escapeHtml(
+                  node,
+                )}</b>: ${succeeded ? "succeeded" : "failed"}${summary === undefined ? "" : renderSummaryHtml(summary)}`
+              })
+              .join("<br>")
+
+      const { pages, omittedLines } = paginateOutput(buf, {
+        pageSize: matrixPageSize,
+        maxPages: maxResultMessages,
+      })
+      for (const [i, page] of pages.entries()) {
+        const partDisplay =
+          pages.length === 1 ? "" : ` (part ${i + 1} of ${pages.length})`
         await matrix.sendHtmlText(
           matrixRoom,
-          `${messagePrefix} Results will be displayed inline for <code>${escapeHtml(
-            commandDisplay,
-          )}</code>\n<hr>${escapeHtml(buf)}`,
+          i === 0
+            ? `${escapeHtml(
+                messagePrefix,
+              )} Results will be displayed inline for <code>${escapeHtml(
+                commandDisplay,
+              )}</code>${partDisplay}\n${summaryHtml}<hr>${escapeHtml(page)}`
+            : `Results for <code>${escapeHtml(
+                commandDisplay,
+              )}</code>${partDisplay}\n<hr>${escapeHtml(page)}`,
         )
-        return
       }
 
-      const url = await matrix.uploadContent(
-        Buffer.from(message instanceof Error ? displayError(message) : message),
-        "text/plain",
-        fileName,
-      )
-      await matrix.sendText(
-        matrixRoom,
-        `${messagePrefix} Results were uploaded as ${fileName} for ${commandDisplay}.`,
-      )
-      await matrix.sendMessage(matrixRoom, {
-        msgtype: "m.file",
-        body: fileName,
-        url,
-      })
+      if (omittedLines) {
+        const url = await matrix.uploadContent(
+          Buffer.from(buf),
+          "text/plain",
+          fileName,
+        )
+        await matrix.sendText(
+          matrixRoom,
+          `The output was too big to be fully displayed, thus its first ${omittedLines} lines were omitted. The full output was uploaded as ${fileName}.`,
+        )
+        await matrix.sendMessage(matrixRoom, {
+          msgtype: "m.file",
+          body: fileName,
+          url,
+        })
+      }
     } catch (error) {
       logger.fatal(
         error?.body?.error,
@@ -198,6 +504,67 @@ export const getSendMatrixResult = function (
   }
 }
 
+// Scheduled runs are only reported when their outcome changes from the
+// previous run's, or when the schedule's first run fails
+export const getSendScheduledRunResult = function (
+  matrix: MatrixClient,
+  state: Pick<State, "logger" | "maxResultMessages" | "scheduleDb">,
+  taskData: ApiTask & { scheduleId: string },
+) {
+  const { logger } = state
+  const { scheduleId, matrixRoom, commandDisplay } = taskData
+  const sendMatrixResult = getSendMatrixResult(matrix, state, taskData)
+  return async function (
+    message: CommandOutput,
+    details: TaskResultDetails,
+    outcome: FinishedTaskOutcome,
+  ) {
+    try {
+      // Assigned from the callback, thus the type is asserted so that it's not
+      // narrowed to undefined
+      let previousOutcome = undefined as FinishedTaskOutcome | undefined
+      const schedule = await updateSchedule(
+        state,
+        scheduleId,
+        function (schedule) {
+          previousOutcome = schedule.lastOutcome
+          return { ...schedule, lastOutcome: outcome }
+        },
+      )
+      if (schedule === undefined) {
+        logger.info(
+          taskData,
+          `Not reporting the result since the schedule ${scheduleId} was deleted`,
+        )
+        return
+      }
+
+      if (
+        previousOutcome === outcome ||
+        (previousOutcome === undefined && outcome === "succeeded")
+      ) {
+        logger.info(
+          taskData,
+          `Not reporting the result of the schedule ${scheduleId} since its outcome did not change`,
+        )
+        return
+      }
+
+      await matrix.sendText(
+        matrixRoom,
+        previousOutcome === undefined
+          ? `The first run of the schedule ${scheduleId} (${schedule.cron}) failed for ${commandDisplay}`
+          : outcome === "failed"
+          ? `The schedule ${scheduleId} (${schedule.cron}) started failing for ${commandDisplay}`
+          : `The schedule ${scheduleId} (${schedule.cron}) is passing again for ${commandDisplay}`,
+      )
+      await sendMatrixResult(message, details)
+    } catch (error) {
+      logger.fatal(error, "Caught error when reporting a scheduled run")
+    }
+  }
+}
+
 export const displayDuration = function (start: Date, finish: Date) {
   const delta = Math.abs(differenceInMilliseconds(finish, start))
 
@@ -231,7 +598,7 @@ export const displayDuration = function (start: Date, finish: Date) {
   return buf.slice(separator.length)
 }
 
-const escapeHtml = function (str: string) {
+export const escapeHtml = function (str: string) {
   return str
     .replace(/&/g, "&amp;")
     .replace(/</g, "&lt;")
@@ -246,9 +613,92 @@ const optionPrefixExpression = /^-[^=\s]+[=\s]*/
 // This expression catches the following forms: ws://foo, wss://foo, etc.
 const uriPrefixExpression = /^ws\w*:\/\//
 
+const splitOptionPrefix = function (rawArg: string) {
+  const optionPrefix = optionPrefixExpression.exec(rawArg)
+  return optionPrefix === null
+    ? { argPrefix: "", arg: rawArg }
+    : { argPrefix: optionPrefix[0], arg: rawArg.slice(optionPrefix[0].length) }
+}
+
+export type ParsedNodeArgs = {
+  // Only specified when the arguments were expanded from an argument which
+  // referred to multiple nodes
+  node?: string
+  args: string[]
+}
+
+// Arguments which refer to multiple nodes at once (e.g.
+// --url ws://polkadot,ws://kusama) are expanded into one set of arguments per
+// node
 export const getParsedArgs = function (
   nodesAddresses: State["nodesAddresses"],
   args: string[],
+): ParsedNodeArgs[] | string {
+  const multipleNodesArgIndexes = args
+    .map(function (rawArg, i) {
+      const { arg } = splitOptionPrefix(rawArg)
+      return uriPrefixExpression.test(arg) && arg.includes(",") ? i : -1
+    })
+    .filter(function (i) {
+      return i !== -1
+    })
+
+  if (multipleNodesArgIndexes.length === 0) {
+    const parsedArgs = parseArgs(nodesAddresses, args)
+    return typeof parsedArgs === "string" ? parsedArgs : [{ args: parsedArgs }]
+  }
+
+  if (multipleNodesArgIndexes.length > 1) {
+    return "Only one argument may refer to multiple nodes"
+  }
+
+  const [multipleNodesArgIndex] = multipleNodesArgIndexes
+  const { argPrefix, arg } = splitOptionPrefix(args[multipleNodesArgIndex])
+  const results: ParsedNodeArgs[] = []
+  for (const nodeArg of arg.split(",")) {
+    const uriPrefixMatch = uriPrefixExpression.exec(nodeArg)
+    if (uriPrefixMatch === null) {
+      return `Argument "${arg}" refers to multiple nodes, but "${nodeArg}" is not in the form \`ws://name\``
+    }
+    const node = nodeArg.slice(uriPrefixMatch[0].length)
+    if (
+      results.find(function (result) {
+        return result.node === node
+      }) !== undefined
+    ) {
+      return `Argument "${arg}" refers to the node "${node}" more than once`
+    }
+
+    const parsedArgs = parseArgs(nodesAddresses, [
+      ...args.slice(0, multipleNodesArgIndex),
+      `${argPrefix}${nodeArg}`,
+      ...args.slice(multipleNodesArgIndex + 1),
+    ])
+    if (typeof parsedArgs === "string") {
+      return parsedArgs
+    }
+    results.push({ node, args: parsedArgs })
+  }
+
+  return results
+}
+
+export const getNodeRuns = function (
+  parsedArgs: ParsedNodeArgs[],
+  argsPrefix: string[] = [],
+): Task["nodeRuns"] {
+  if (parsedArgs.length < 2) {
+    return undefined
+  }
+  return parsedArgs.map(function ({ node, args }) {
+    assert(node, "Node names should be known for multiple nodes")
+    return { node, args: [...argsPrefix, ...args] }
+  })
+}
+
+const parseArgs = function (
+  nodesAddresses: State["nodesAddresses"],
+  args: string[],
 ) {
   const nodeOptionsDisplay = `Available names are: ${Object.keys(
     nodesAddresses,
@@ -256,14 +706,7 @@ export const getParsedArgs = function (
 
   const parsedArgs = []
   for (const rawArg of args) {
-    const optionPrefix = optionPrefixExpression.exec(rawArg)
-    const { argPrefix, arg } =
-      optionPrefix === null
-        ? { argPrefix: "", arg: rawArg }
-        : {
-            argPrefix: optionPrefix[0],
-            arg: rawArg.slice(optionPrefix[0].length),
-          }
+    const { argPrefix, arg } = splitOptionPrefix(rawArg)
 
     const uriPrefixMatch = uriPrefixExpression.exec(arg)
     if (uriPrefixMatch === null) {
@@ -289,112 +732,3 @@ export const getParsedArgs = function (
 
   return parsedArgs
 }
-
-const walkDirs: (dir: string) => AsyncGenerator<string> = async function* (
-  dir,
-) {
-  for await (const d of await fs.promises.opendir(dir)) {
-    if (!d.isDirectory()) {
-      continue
-    }
-
-    const fullPath = path.join(dir, d.name)
-    yield fullPath
-
-    yield* walkDirs(fullPath)
-  }
-}
-
-export const cleanupProjects = async function (
-  executor: ShellExecutor,
-  projectsRoot: string,
-  {
-    includeDirs,
-    excludeDirs = [],
-  }: { includeDirs?: string[]; excludeDirs?: string[] } = {},
-) {
-  const results: CommandOutput[] = []
-
-  toNextProject: for await (const p of walkDirs(projectsRoot)) {
-    if (!(await fsExists(path.join(p, ".git")))) {
-      continue
-    }
-
-    if (includeDirs !== undefined) {
-      if (
-        includeDirs.filter(function (includeDir) {
-          return isDirectoryOrSubdirectory(includeDir, p)
-        }).length === 0
-      ) {
-        continue toNextProject
-      }
-    }
-
-    for (const excludeDir of excludeDirs) {
-      if (isDirectoryOrSubdirectory(excludeDir, p)) {
-        continue toNextProject
-      }
-    }
-
-    const projectDir = path.dirname(p)
-
-    // The project's directory might have been deleted as a result of a previous
-    // cleanup step
-    if (!(await fsExists(projectDir))) {
-      continue
-    }
-
-    try {
-      results.push(
-        await executor(
-          "sh",
-          ["-c", "git add . && git reset --hard && git clean -xdf"],
-          { options: { cwd: projectDir } },
-        ),
-      )
-    } catch (error) {
-      results.push(error)
-    }
-  }
-
-  return results
-}
-
-const isDirectoryOrSubdirectory = function (parent: string, child: string) {
-  if (arePathsEqual(parent, child)) {
-    return true
-  }
-
-  const relativePath = path.relative(parent, child)
-  if (
-    relativePath &&
-    !relativePath.startsWith("..") &&
-    !path.isAbsolute(relativePath)
-  ) {
-    return true
-  }
-
-  return false
-}
-
-const arePathsEqual = function (a: string, b: string) {
-  return a === b || normalizePath(a) === normalizePath(b)
-}
-
-const normalizePath = function normalizePath(v: string) {
-  for (const [pattern, replacement] of [
-    [/\\/g, "/"],
-    [/(\w):/, "/$1"],
-    [/(\w+)\/\.\.\/?/g, ""],
-    [/^\.\//, ""],
-    [/\/\.\//, "/"],
-    [/\/\.$/, ""],
-    [/\/$/, ""],
-  ] as const) {
-    while (pattern.test(v)) {
-      v = v.replace(pattern, replacement)
-    }
-  }
-
-  return v
-}
@@ -1,4 +1,10 @@
-import { IssueCommentCreatedEvent } from "@octokit/webhooks-types/schema"
+import {
+  IssueCommentCreatedEvent,
+  IssueCommentDeletedEvent,
+  IssueCommentEditedEvent,
+  PullRequestClosedEvent,
+  PullRequestSynchronizeEvent,
+} from "@octokit/webhooks-types/schema"
 import { Mutex } from "async-mutex"
 import path from "path"
 import { Probot } from "probot"
@@ -9,7 +15,10 @@ import {
 } from "./constants"
 import {
   getPullRequestTaskHandle,
+  getPullRequestTaskHandles,
+  getPullRequestTaskShortId,
   getRegisterPullRequestHandle,
+  isAcceptingNewTasks,
   queue,
 } from "./executor"
 import {
@@ -18,20 +27,42 @@ import {
   getOctokit,
   getPostPullRequestResult,
   getPullRequestHandleId,
+  getPullRequestStatusReporter,
+  getPullRequestTaskHeader,
   isOrganizationMember,
   updateComment,
 } from "./github"
 import { Logger } from "./logger"
+import { RuntimeOnlyOptions } from "./runtime"
+import { getPullRequestTaskStatus } from "./status"
 import {
   PullRequestError,
+  PullRequestParams,
   PullRequestTask,
   State,
   WebhookEvents,
 } from "./types"
-import { displayCommand, getCommand, getLines, getParsedArgs } from "./utils"
+import {
+  displayCommand,
+  extractBotOptions,
+  getCommand,
+  getLines,
+  getNodeRuns,
+  getParsedArgs,
+} from "./utils"
 
 type WebhookEventPayload<E extends WebhookEvents> =
-  E extends "issue_comment.created" ? IssueCommentCreatedEvent : never
+  E extends "issue_comment.created"
+    ? IssueCommentCreatedEvent
+    : E extends "issue_comment.edited"
+    ? IssueCommentEditedEvent
+    : E extends "issue_comment.deleted"
+    ? IssueCommentDeletedEvent
+    : E extends "pull_request.closed"
+    ? PullRequestClosedEvent
+    : E extends "pull_request.synchronize"
+    ? PullRequestSynchronizeEvent
+    : never
 
 type WebhookHandler<E extends WebhookEvents> = (
   logger: Logger,
@@ -39,6 +70,75 @@ type WebhookHandler<E extends WebhookEvents> = (
   event: WebhookEventPayload<E>,
 ) => Promise<PullRequestError | void>
 
+type SubCommandContext = {
+  octokit: ExtendedOctokit
+  payload: IssueCommentCreatedEvent
+  requester: string
+  prParams: PullRequestParams
+  commentParams: { owner: string; repo: string; issue_number: number }
+  // The arguments after the sub-command's name
+  args: string[]
+  env: Record<string, string>
+  getError: (body: string) => PullRequestError
+  // Once a comment is created for the command, errors are reported by updating
+  // it instead of creating a new one
+  setCommentId: (commentId: number) => void
+  // The task is cancelled if an exception is thrown while handling the command
+  setHandleId: (handleId: string) => void
+}
+
+type SubCommandHandler = (
+  context: SubCommandContext,
+) => Promise<PullRequestError | void>
+
+type SubCommandPermission = "anyone" | "allowedOrganizationMember"
+
+type SubCommand = {
+  name: string
+  description: string
+  usage: string
+  permission: SubCommandPermission
+  handler: SubCommandHandler
+}
+
+const displaySubCommandPermission = function (
+  permission: SubCommandPermission,
+) {
+  switch (permission) {
+    case "anyone": {
+      return "anyone"
+    }
+    case "allowedOrganizationMember": {
+      return "members of the allowed organizations"
+    }
+    default: {
+      const exhaustivenessCheck: never = permission
+      throw new Error(`Not exhaustive: ${exhaustivenessCheck}`)
+    }
+  }
+}
+
+// Finds the bot's command in the comment, if any
+const getCommentCommand = function (body: string) {
+  const commandLine = getLines(body).find(function (line) {
+    return line.includes(botMentionPrefix)
+  })
+  if (!commandLine) {
+    return
+  }
+
+  const { execPath: botMention, ...command } = getCommand(
+    commandLine,
+    defaultTryRuntimeGetCommandOptions,
+  )
+  if (botMention !== botMentionPrefix) {
+    return
+  }
+
+  const [subCommandName, ...args] = command.args
+  return { subCommandName, args, env: command.env }
+}
+
 export const setupEvent = function <E extends WebhookEvents>(
   bot: Probot,
   eventName: E,
@@ -97,6 +197,8 @@ export const getWebhooksHandlers = function (state: State) {
     allowedOrganizations,
     repositoryCloneDirectory,
     nodesAddresses,
+    prebuiltNodeBinary,
+    pushPolicies,
   } = state
 
   const isRequesterAllowed = async function (
@@ -119,13 +221,392 @@ export const getWebhooksHandlers = function (state: State) {
     return false
   }
 
+  // Parses the arguments of the queue sub-command into the parts of the task
+  // which are determined by them
+  const getQueueCommand = function (
+    otherArgs: string[],
+    {
+      env,
+      baseBranch,
+    }: { env: Record<string, string>; baseBranch: string | undefined },
+  ) {
+    const {
+      options: {
+        "merge-base": shouldMergeBase,
+        "runtime-only": runtimePackage,
+      },
+      otherArgs: tryRuntimeArgs,
+    } = extractBotOptions(otherArgs, ["merge-base", "runtime-only"])
+
+    let runtimeOnly: RuntimeOnlyOptions | undefined = undefined
+    if (runtimePackage !== undefined) {
+      if (typeof runtimePackage !== "string" || !runtimePackage) {
+        return "The runtime's package should be specified for --runtime-only, e.g. `--runtime-only=polkadot-runtime`"
+      }
+      if (prebuiltNodeBinary === null) {
+        return "The runtime-only mode is not available since no prebuilt node binary is configured"
+      }
+      runtimeOnly = { runtimePackage }
+    }
+
+    let mergeBase: string | undefined = undefined
+    if (shouldMergeBase !== undefined) {
+      if (!baseBranch) {
+        return "Failed to get the base branch name from the Github API"
+      }
+      mergeBase = baseBranch
+    }
+
+    const parsedArgs = getParsedArgs(nodesAddresses, tryRuntimeArgs)
+    if (typeof parsedArgs === "string") {
+      return parsedArgs
+    }
+
+    const execPath = "cargo"
+    const cargoArgs = [
+      "run",
+      // application requirement: always run the command in release mode
+      // see https://github.com/paritytech/try-runtime-bot/issues/26#issue-1049555966
+      "--release",
+      // "--quiet" should be kept so that the output doesn't get
+      // polluted with a bunch of compilation stuff; bear in mind the
+      // output is posted on Github comments which have limited
+      // character count
+      "--quiet",
+      "--features=try-runtime",
+      "try-runtime",
+    ]
+    const args = [...cargoArgs, ...parsedArgs[0].args]
+    const nodeRuns = getNodeRuns(parsedArgs, cargoArgs)
+
+    return {
+      execPath,
+      args,
+      env,
+      nodeRuns,
+      runtimeOnly,
+      mergeBase,
+      commandDisplay: displayCommand({
+        execPath,
+        // The node names are more readable than their addresses
+        // when the command is executed for multiple nodes
+        args: nodeRuns === undefined ? args : [...cargoArgs, ...tryRuntimeArgs],
+        secretsToHide: [],
+      }),
+    }
+  }
+
+  const queueSubCommand: SubCommandHandler = async function ({
+    octokit,
+    payload,
+    requester,
+    prParams,
+    commentParams,
+    args: otherArgs,
+    env,
+    getError,
+    setCommentId,
+    setHandleId,
+  }) {
+    const { owner, repo } = prParams
+    const installationId = payload.installation?.id
+    if (!installationId) {
+      return getError("Github Installation ID was not found in webhook payload")
+    }
+
+    if (!isAcceptingNewTasks()) {
+      return getError(
+        "The bot is restarting and can't accept new commands right now. Please try again in a few minutes.",
+      )
+    }
+
+    const prResponse = await octokit.pulls.get(prParams)
+    if (prResponse.status !== 200) {
+      return getError(
+        `When trying to fetch the pull request, Github API responded with unexpected status ${
+          prResponse.status
+        }\n(${JSON.stringify(prResponse.data)})`,
+      )
+    }
+
+    const contributor = prResponse.data.head?.user?.login
+    if (!contributor) {
+      return getError(`Failed to get branch owner from the Github API`)
+    }
+
+    const branch = prResponse.data.head?.ref
+    if (!branch) {
+      return getError(`Failed to get branch name from the Github API`)
+    }
+
+    const sha = prResponse.data.head?.sha
+    if (!sha) {
+      return getError(
+        `Failed to get the branch's head commit from the Github API`,
+      )
+    }
+
+    const queueCommand = getQueueCommand(otherArgs, {
+      env,
+      baseBranch: prResponse.data.base?.ref,
+    })
+    if (typeof queueCommand === "string") {
+      return getError(queueCommand)
+    }
+    const { mergeBase, ...command } = queueCommand
+
+    const shortId = getPullRequestTaskShortId(prParams)
+    const handleId = getPullRequestHandleId({ ...prParams, shortId })
+    setHandleId(handleId)
+
+    const gitRef = { owner, repo, contributor, branch, sha, mergeBase }
+
+    const commentBody = getPullRequestTaskHeader({
+      shortId,
+      gitRef,
+      runtimeOnly: command.runtimeOnly,
+    })
+    const commentCreationResponse = await createComment(octokit, {
+      ...commentParams,
+      body: commentBody,
+    })
+    if (commentCreationResponse.status !== 201) {
+      return getError(
+        `When trying to create a comment in the pull request, Github API responded with unexpected status ${
+          prResponse.status
+        }\n(${JSON.stringify(commentCreationResponse.data)})`,
+      )
+    }
+    const commentId = commentCreationResponse.id
+    setCommentId(commentId)
+
+    const taskData: PullRequestTask = {
+      ...prParams,
+      ...command,
+      tag: "PullRequestTask",
+      handleId,
+      shortId,
+      requester,
+      commentId,
+      requestCommentId: payload.comment.id,
+      installationId,
+      gitRef,
+      version,
+      timesRequeued: 0,
+      timesAttempted: 0,
+      phases: [],
+      repoPath: path.join(repositoryCloneDirectory, repo),
+    }
+
+    let queueMessage = ""
+    const statusReporter = getPullRequestStatusReporter({
+      octokit,
+      state,
+      taskData,
+      getHeader: function (task) {
+        return `${getPullRequestTaskHeader({
+          ...task,
+          shortId,
+        })}${queueMessage}${
+          task.commandDisplay === taskData.commandDisplay
+            ? ""
+            : `\n\nThe command was changed to \`${task.commandDisplay}\` since its comment was edited.`
+        }`
+      },
+    })
+    const postResult = getPostPullRequestResult({ taskData, octokit, state })
+    const message = await queue({
+      taskData,
+      onResult: async function (result, details, outcome, task) {
+        const resultUrl = await postResult(result, details, task)
+        await statusReporter.finish(outcome, resultUrl)
+      },
+      state,
+      registerHandle: getRegisterPullRequestHandle(taskData),
+      progressReporter: statusReporter,
+    })
+    queueMessage = `\n${message}`
+    statusReporter.refresh()
+  }
+
+  // Finds the tasks of the pull request which are referred to by the
+  // sub-command's arguments: either the task with the specified short ID or
+  // all of them
+  const getReferredTaskHandles = function (
+    prParams: PullRequestParams,
+    [shortId]: string[],
+  ) {
+    const handles = getPullRequestTaskHandles(prParams)
+    if (handles.length === 0) {
+      return "No command is running for this pull request"
+    }
+    if (shortId === undefined) {
+      return handles
+    }
+    const handle = handles.find(function ({ task }) {
+      return task.shortId === shortId
+    })
+    if (handle === undefined) {
+      return `No command with ID \`${shortId}\` is running for this pull request; the running commands are ${displayShortIds(
+        handles,
+      )}`
+    }
+    return [handle]
+  }
+
+  const displayShortIds = function (
+    handles: ReturnType<typeof getPullRequestTaskHandles>,
+  ) {
+    return handles
+      .map(function ({ task: { shortId } }) {
+        return `\`${shortId}\``
+      })
+      .join(", ")
+  }
+
+  const cancelSubCommand: SubCommandHandler = async function ({
+    octokit,
+    requester,
+    prParams,
+    commentParams,
+    args,
+    getError,
+  }) {
+    const handles = getReferredTaskHandles(prParams, args)
+    if (typeof handles === "string") {
+      return getError(handles)
+    }
+    if (handles.length > 1) {
+      return getError(
+        `Multiple commands are running for this pull request, thus the ID of the one to be cancelled should be specified, e.g. \`${botMentionPrefix} cancel ${
+          handles[0].task.shortId
+        }\`; the running commands are ${displayShortIds(handles)}`,
+      )
+    }
+
+    const [
+      {
+        cancel,
+        task: { commentId, shortId },
+      },
+    ] = handles
+
+    await cancel()
+    await updateComment(octokit, {
+      ...commentParams,
+      comment_id: commentId,
+      body: `@${requester} command \`${shortId}\` was cancelled`.trim(),
+    })
+  }
+
+  const statusSubCommand: SubCommandHandler = async function ({
+    octokit,
+    requester,
+    prParams,
+    commentParams,
+    args,
+    getError,
+  }) {
+    const handles = getReferredTaskHandles(prParams, args)
+    if (typeof handles === "string") {
+      return getError(handles)
+    }
+
+    const statuses: string[] = []
+    for (const { task } of handles) {
+      const status = await getPullRequestTaskStatus(state, {
+        handleId: task.handleId,
+        version,
+      })
+      if (status !== undefined) {
+        statuses.push(status)
+      }
+    }
+    if (statuses.length === 0) {
+      return getError("No command is running for this pull request")
+    }
+
+    await createComment(octokit, {
+      ...commentParams,
+      body: `@${requester} ${statuses.join("\n\n")}`,
+    })
+  }
+
+  const helpSubCommand: SubCommandHandler = async function ({
+    octokit,
+    requester,
+    commentParams,
+  }) {
+    const nodes = Object.entries(nodesAddresses)
+    await createComment(octokit, {
+      ...commentParams,
+      body: `@${requester} The following sub-commands are available:
+
+| Sub-command | Usage | Description | Who can use it |
+| --- | --- | --- | --- |
+${subCommands
+  .map(function ({ name, usage, description, permission }) {
+    return `| ${name} | \`${usage}\` | ${description} | ${displaySubCommandPermission(permission)} |`
+  })
+  .join("\n")}
+
+${
+  nodes.length === 0
+    ? "No nodes are registered."
+    : `The following nodes are registered; refer to them by their name, e.g. \`ws://${
+        nodes[0][0]
+      }\`:
+
+${nodes
+  .map(function ([name, address]) {
+    return `- \`${name}\`: ${address}`
+  })
+  .join("\n")}`
+}`,
+    })
+  }
+
+  const subCommands: SubCommand[] = [
+    {
+      name: "queue",
+      description:
+        "Queues the execution of the try-runtime CLI for the pull request's branch and posts the results once it finishes.",
+      usage: `${botMentionPrefix} queue [env-vars] [--merge-base] [--runtime-only=package] --url ws://[node] [try-runtime-cli-args]`,
+      permission: "allowedOrganizationMember",
+      handler: queueSubCommand,
+    },
+    {
+      name: "cancel",
+      description:
+        "Cancels a command of the pull request; the command's ID should be specified if multiple commands are running.",
+      usage: `${botMentionPrefix} cancel [id]`,
+      permission: "allowedOrganizationMember",
+      handler: cancelSubCommand,
+    },
+    {
+      name: "status",
+      description:
+        "Shows the queue position, phase and elapsed time of the specified command of the pull request or of all of them.",
+      usage: `${botMentionPrefix} status [id]`,
+      permission: "allowedOrganizationMember",
+      handler: statusSubCommand,
+    },
+    {
+      name: "help",
+      description: "Shows the available sub-commands and nodes.",
+      usage: `${botMentionPrefix} help`,
+      permission: "anyone",
+      handler: helpSubCommand,
+    },
+  ]
+
   const onIssueCommentCreated: WebhookHandler<"issue_comment.created"> =
     async function (eventName, octokit, payload) {
       // Note: async-mutex implements a "fair mutex" which means requests will be
       // queued in the same order as they're received; if changing to a different
       // library then verify that this aspect is maintained.
       await mutex.runExclusive(async function () {
-        const { issue, comment, repository, installation } = payload
+        const { issue, comment, repository } = payload
 
         if (!("pull_request" in issue)) {
           logger.debug(
@@ -163,182 +644,218 @@ export const getWebhooksHandlers = function (state: State) {
         const pullNumber = issue.number
         const prParams = { owner, repo, pull_number: pullNumber }
         const commentParams = { owner, repo, issue_number: pullNumber }
-        const handleId = getPullRequestHandleId(prParams)
         let commentId: number | undefined = undefined
+        let handleId: string | undefined = undefined
 
         const getError = function (body: string) {
           return new PullRequestError(prParams, { body, requester, commentId })
         }
 
         try {
-          const commandLine = getLines(comment.body).find(function (line) {
-            return line.includes(botMentionPrefix)
-          })
-          if (!commandLine) {
-            return
-          }
-
-          if (!(await isRequesterAllowed(octokit, requester))) {
-            return getError(
-              "Requester could not be detected as a member of an allowed organization.",
-            )
-          }
-
-          const { execPath: botMention, ...command } = getCommand(
-            commandLine,
-            defaultTryRuntimeGetCommandOptions,
-          )
-          if (botMention !== botMentionPrefix) {
+          const command = getCommentCommand(comment.body)
+          if (command === undefined) {
             return
           }
+          const { subCommandName } = command
 
-          const [subCommand, ...otherArgs] = command.args
+          const subCommand = subCommands.find(function ({ name }) {
+            return name === subCommandName
+          })
 
-          switch (subCommand) {
-            case "queue": {
-              const installationId = installation?.id
-              if (!installationId) {
+          // Unknown sub-commands are only reported to members of the allowed
+          // organizations
+          const permission =
+            subCommand?.permission ?? "allowedOrganizationMember"
+          switch (permission) {
+            case "anyone": {
+              break
+            }
+            case "allowedOrganizationMember": {
+              if (!(await isRequesterAllowed(octokit, requester))) {
                 return getError(
-                  "Github Installation ID was not found in webhook payload",
+                  "Requester could not be detected as a member of an allowed organization.",
                 )
               }
+              break
+            }
+            default: {
+              const exhaustivenessCheck: never = permission
+              throw new Error(`Not exhaustive: ${exhaustivenessCheck}`)
+            }
+          }
 
-              if (getPullRequestTaskHandle(handleId) !== undefined) {
-                return getError(
-                  "try-runtime is already being executed for this pull request",
-                )
-              }
+          if (subCommand === undefined) {
+            return getError(
+              `Unknown sub-command ${subCommandName}. Comment \`${botMentionPrefix} help\` for the available sub-commands.`,
+            )
+          }
 
-              const prResponse = await octokit.pulls.get(prParams)
-              if (prResponse.status !== 200) {
-                return getError(
-                  `When trying to fetch the pull request, Github API responded with unexpected status ${
-                    prResponse.status
-                  }\n(${JSON.stringify(prResponse.data)})`,
-                )
-              }
+          return await subCommand.handler({
+            octokit,
+            payload,
+            requester,
+            prParams,
+            commentParams,
+            args: command.args,
+            env: command.env,
+            getError,
+            setCommentId: function (id) {
+              commentId = id
+            },
+            setHandleId: function (id) {
+              handleId = id
+            },
+          })
+        } catch (error) {
+          const cancelHandle =
+            handleId === undefined
+              ? undefined
+              : getPullRequestTaskHandle(handleId)
 
-              const contributor = prResponse.data.head?.user?.login
-              if (!contributor) {
-                return getError(
-                  `Failed to get branch owner from the Github API`,
-                )
-              }
+          if (cancelHandle !== undefined) {
+            const { cancel } = cancelHandle
+            await cancel()
+          }
 
-              const branch = prResponse.data.head?.ref
-              if (!branch) {
-                return getError(`Failed to get branch name from the Github API`)
-              }
+          return getError(
+            `Exception caught in webhook handler\n${error.toString()}: ${
+              error.stack
+            }`,
+          )
+        }
+      })
+    }
 
-              const commentBody =
-                `Preparing try-runtime command for branch: \`${branch}\`. Comment will be updated.\n\n`.trim()
-              const commentCreationResponse = await createComment(octokit, {
-                ...commentParams,
-                body: commentBody,
-              })
-              if (commentCreationResponse.status !== 201) {
-                return getError(
-                  `When trying to create a comment in the pull request, Github API responded with unexpected status ${
-                    prResponse.status
-                  }\n(${JSON.stringify(commentCreationResponse.data)})`,
-                )
-              }
-              commentId = commentCreationResponse.id
+  // Cancels the tasks regardless of whether they're queued or running
+  const cancelPullRequestTasks = async function (
+    octokit: ExtendedOctokit,
+    handles: ReturnType<typeof getPullRequestTaskHandles>,
+    reason: string,
+  ) {
+    for (const {
+      cancel,
+      task: { owner, repo, pull_number, commentId, shortId, requester },
+    } of handles) {
+      await cancel()
+      await updateComment(octokit, {
+        owner,
+        repo,
+        issue_number: pull_number,
+        comment_id: commentId,
+        body: `@${requester} command \`${shortId}\` was cancelled because ${reason}`,
+      })
+    }
+  }
 
-              const parsedArgs = getParsedArgs(nodesAddresses, otherArgs)
-              if (typeof parsedArgs === "string") {
-                return getError(parsedArgs)
-              }
+  // Finds the tasks which were requested through the comment
+  const getCommentTaskHandles = function ({
+    issue,
+    comment,
+    repository,
+  }: IssueCommentEditedEvent | IssueCommentDeletedEvent) {
+    return getPullRequestTaskHandles({
+      owner: repository.owner.login,
+      repo: repository.name,
+      pull_number: issue.number,
+    }).filter(function ({ task }) {
+      return task.requestCommentId === comment.id
+    })
+  }
 
-              const execPath = "cargo"
-              const args = [
-                "run",
-                // application requirement: always run the command in release mode
-                // see https://github.com/paritytech/try-runtime-bot/issues/26#issue-1049555966
-                "--release",
-                // "--quiet" should be kept so that the output doesn't get
-                // polluted with a bunch of compilation stuff; bear in mind the
-                // output is posted on Github comments which have limited
-                // character count
-                "--quiet",
-                "--features=try-runtime",
-                "try-runtime",
-                ...parsedArgs,
-              ]
-
-              const taskData: PullRequestTask = {
-                ...prParams,
-                tag: "PullRequestTask",
-                handleId,
-                requester,
-                execPath,
-                args,
-                env: command.env,
-                commentId,
-                installationId,
-                gitRef: { owner, repo, contributor, branch },
-                version,
-                commandDisplay: displayCommand({
-                  execPath,
-                  args,
-                  secretsToHide: [],
-                }),
-                timesRequeued: 0,
-                timesRequeuedSnapshotBeforeExecution: 0,
-                timesExecuted: 0,
-                repoPath: path.join(repositoryCloneDirectory, repo),
-              }
+  // Applies the edited arguments to the comment's task as long as the task is
+  // still queued
+  const onIssueCommentEdited: WebhookHandler<"issue_comment.edited"> =
+    async function (logger, octokit, payload) {
+      return await mutex.runExclusive(async function () {
+        const { comment, sender } = payload
 
-              const message = await queue({
-                taskData,
-                onResult: getPostPullRequestResult({
-                  taskData,
-                  octokit,
-                  state,
-                }),
-                state,
-                registerHandle: getRegisterPullRequestHandle(taskData),
-              })
-              await updateComment(octokit, {
-                ...commentParams,
-                comment_id: commentId,
-                body: `${commentBody}\n${message}`,
-              })
+        const [handle] = getCommentTaskHandles(payload)
+        if (handle === undefined) {
+          logger.debug(
+            payload,
+            "Skipping payload because the comment has no ongoing command",
+          )
+          return
+        }
+        const { task, update } = handle
+        const { owner, repo, pull_number, shortId, requester } = task
+        const prParams = { owner, repo, pull_number }
 
-              break
-            }
-            case "cancel": {
-              const cancelItem = getPullRequestTaskHandle(handleId)
-              if (cancelItem === undefined) {
-                return getError(`No command is running for this pull request`)
-              }
+        const getError = function (body: string) {
+          return new PullRequestError(prParams, { body, requester })
+        }
+
+        try {
+          if (!(await isRequesterAllowed(octokit, sender.login))) {
+            return getError(
+              `The comment of command \`${shortId}\` was edited by ${sender.login}, who could not be detected as a member of an allowed organization, thus the edit was not applied.`,
+            )
+          }
 
-              const {
-                cancel,
-                task: { commentId },
-              } = cancelItem
+          const command = getCommentCommand(comment.body)
+          if (command === undefined || command.subCommandName !== "queue") {
+            return getError(
+              `The comment of command \`${shortId}\` was edited so that it's no longer a queue command, thus the edit was not applied; comment \`${botMentionPrefix} cancel ${shortId}\` for cancelling the command.`,
+            )
+          }
 
-              await cancel()
-              await updateComment(octokit, {
-                ...commentParams,
-                comment_id: commentId,
-                body: `@${requester} command was cancelled`.trim(),
-              })
+          const prResponse = await octokit.pulls.get(prParams)
+          if (prResponse.status !== 200) {
+            return getError(
+              `When trying to fetch the pull request, Github API responded with unexpected status ${
+                prResponse.status
+              }\n(${JSON.stringify(prResponse.data)})`,
+            )
+          }
 
-              break
-            }
-            default: {
-              return getError(`Unknown sub-command ${subCommand}`)
-            }
+          const queueCommand = getQueueCommand(command.args, {
+            env: command.env,
+            baseBranch: prResponse.data.base?.ref,
+          })
+          if (typeof queueCommand === "string") {
+            return getError(
+              `The edit of the comment of command \`${shortId}\` was not applied: ${queueCommand}`,
+            )
+          }
+          const { mergeBase, ...changes } = queueCommand
+
+          // Edits which don't affect the command (e.g. to the rest of the
+          // comment's text) are ignored
+          if (
+            JSON.stringify([
+              changes.args,
+              changes.env,
+              changes.nodeRuns,
+              changes.runtimeOnly,
+              mergeBase,
+            ]) ===
+            JSON.stringify([
+              task.args,
+              task.env,
+              task.nodeRuns,
+              task.runtimeOnly,
+              task.gitRef.mergeBase,
+            ])
+          ) {
+            return
           }
-        } catch (error) {
-          const cancelHandle = getPullRequestTaskHandle(handleId)
 
-          if (cancelHandle !== undefined) {
-            const { cancel } = cancelHandle
-            await cancel()
+          if (
+            !(await update({
+              ...changes,
+              gitRef: { ...task.gitRef, mergeBase },
+            }))
+          ) {
+            return getError(
+              `Command \`${shortId}\` has already started, thus the edit of its comment was not applied; comment \`${botMentionPrefix} cancel ${shortId}\` and queue it again for running the edited command.`,
+            )
           }
 
+          logger.info(
+            { handleId: task.handleId, commandDisplay: changes.commandDisplay },
+            `Applied the edited command to task ${shortId}`,
+          )
+        } catch (error) {
           return getError(
             `Exception caught in webhook handler\n${error.toString()}: ${
               error.stack
@@ -348,5 +865,102 @@ export const getWebhooksHandlers = function (state: State) {
       })
     }
 
-  return { onIssueCommentCreated }
+  const onIssueCommentDeleted: WebhookHandler<"issue_comment.deleted"> =
+    async function (logger, octokit, payload) {
+      await mutex.runExclusive(async function () {
+        const handles = getCommentTaskHandles(payload)
+        if (handles.length === 0) {
+          return
+        }
+        logger.info(
+          handles.map(function ({ task: { handleId } }) {
+            return handleId
+          }),
+          "Cancelling the tasks of the deleted comment",
+        )
+        await cancelPullRequestTasks(
+          octokit,
+          handles,
+          "the comment which requested it was deleted",
+        )
+      })
+    }
+
+  const onPullRequestClosed: WebhookHandler<"pull_request.closed"> =
+    async function (logger, octokit, payload) {
+      await mutex.runExclusive(async function () {
+        const { pull_request, repository } = payload
+        const prParams = {
+          owner: repository.owner.login,
+          repo: repository.name,
+          pull_number: pull_request.number,
+        }
+        logger.info(
+          prParams,
+          "Cancelling the tasks of the pull request since it was closed",
+        )
+        await cancelPullRequestTasks(
+          octokit,
+          getPullRequestTaskHandles(prParams),
+          "the pull request was closed",
+        )
+      })
+    }
+
+  const onPullRequestSynchronize: WebhookHandler<"pull_request.synchronize"> =
+    async function (logger, octokit, payload) {
+      await mutex.runExclusive(async function () {
+        const { pull_request, repository, after } = payload
+        const prParams = {
+          owner: repository.owner.login,
+          repo: repository.name,
+          pull_number: pull_request.number,
+        }
+        const pushPolicy =
+          pushPolicies[`${prParams.owner}/${prParams.repo}`] ?? "cancel"
+
+        switch (pushPolicy) {
+          case "cancel": {
+            logger.info(
+              prParams,
+              `Cancelling the tasks of the pull request since its branch was pushed to (now at ${after})`,
+            )
+            await cancelPullRequestTasks(
+              octokit,
+              getPullRequestTaskHandles(prParams),
+              `new commits were pushed to the pull request's branch (now at ${after})`,
+            )
+            break
+          }
+          case "retarget": {
+            for (const { task, update } of getPullRequestTaskHandles(
+              prParams,
+            )) {
+              const isUpdated = await update({
+                gitRef: { ...task.gitRef, sha: after },
+              })
+              logger.info(
+                { handleId: task.handleId, sha: after },
+                isUpdated
+                  ? `Retargeted task ${task.shortId} to the pull request's new head commit`
+                  : `Task ${task.shortId} is not retargeted to the pull request's new head commit since it has already started`,
+              )
+            }
+            break
+          }
+          default: {
+            const exhaustivenessCheck: never = pushPolicy
+            throw new Error(`Not exhaustive: ${exhaustivenessCheck}`)
+          }
+        }
+      })
+    }
+
+  return {
+    onIssueCommentCreated,
+    onIssueCommentEdited,
+    onIssueCommentDeleted,
+    onPullRequestClosed,
+    onPullRequestSynchronize,
+  }
 }